@@ -0,0 +1,92 @@
+import { MADEComponent, ComponentCategory, ListCategoriesResponse } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Category tree built from Storybook title paths
+ * ('Components/Forms/Input' → Components › Forms › Input).
+ */
+export class ComponentTaxonomy {
+  private components: MADEComponent[] = [];
+  private tree: ComponentCategory[] = [];
+
+  async initialize(components: MADEComponent[]): Promise<void> {
+    this.components = components;
+    this.tree = this.buildTree(components);
+    logger.info(`Component taxonomy initialized with ${this.tree.length} top-level categories`);
+  }
+
+  getCategories(): ListCategoriesResponse {
+    return {
+      categories: this.tree,
+      uncategorized: this.components
+        .filter(component => !component.category)
+        .map(component => component.name)
+    };
+  }
+
+  /**
+   * A full path ('Components/Forms') matches that category and its
+   * subcategories; a single name ('Forms') matches it at any depth.
+   */
+  matchesCategory(component: MADEComponent, category: string): boolean {
+    if (!component.category) return false;
+
+    const wanted = this.toSegments(category);
+    const actual = this.toSegments(component.category);
+    if (wanted.length === 0) return true;
+
+    if (wanted.length === 1) {
+      return actual.includes(wanted[0]);
+    }
+    return wanted.every((segment, index) => actual[index] === segment);
+  }
+
+  private buildTree(components: MADEComponent[]): ComponentCategory[] {
+    const roots: ComponentCategory[] = [];
+
+    components.forEach(component => {
+      if (!component.category) return;
+
+      let level = roots;
+      const segments = component.category.split('/');
+
+      segments.forEach((segment, index) => {
+        let node = level.find(existing => existing.name === segment);
+        if (!node) {
+          node = {
+            name: segment,
+            path: segments.slice(0, index + 1).join('/'),
+            componentCount: 0,
+            components: [],
+            children: []
+          };
+          level.push(node);
+        }
+
+        node.componentCount++;
+        if (index === segments.length - 1) {
+          node.components.push(component.name);
+        }
+        level = node.children;
+      });
+    });
+
+    this.sortTree(roots);
+    return roots;
+  }
+
+  private sortTree(nodes: ComponentCategory[]): void {
+    nodes.sort((a, b) => a.name.localeCompare(b.name));
+    nodes.forEach(node => {
+      node.components.sort((a, b) => a.localeCompare(b));
+      this.sortTree(node.children);
+    });
+  }
+
+  private toSegments(category: string): string[] {
+    return category
+      .split('/')
+      .map(segment => segment.trim().toLowerCase())
+      .filter(Boolean);
+  }
+}
@@ -0,0 +1,212 @@
+import { MADEToken } from '../types.js';
+
+export interface DTCGToken {
+  $value: unknown;
+  $type?: string;
+  $description?: string;
+  $deprecated?: boolean | string;
+}
+
+export interface DTCGGroup {
+  [key: string]: DTCGGroup | DTCGToken | string | undefined;
+}
+
+const LENGTH = /^(-?[\d.]+(px|rem|em|%|vh|vw|ch|ex)?|0|var\(--[\w-]+\))$/;
+const DURATION = /^-?[\d.]+m?s$/;
+
+/**
+ * Writes indexed tokens as W3C Design Tokens (DTCG) JSON for Figma Tokens
+ * and Style Dictionary. Token names become nested groups
+ * (--made-color-blue-500 → color.blue.500), `var()` references become
+ * `{color.blue.500}` aliases and shadow/typography strings are split back
+ * into composite values.
+ */
+export class DTCGExporter {
+  export(tokens: MADEToken[]): DTCGGroup {
+    const root: DTCGGroup = {};
+    const paths = new Map<string, string[]>();
+
+    // Shorter names first, so '--made-color-blue' claims its key before '--made-color-blue-500'
+    const sorted = [...tokens].sort((a, b) => a.name.localeCompare(b.name));
+    sorted.forEach(token => paths.set(token.name, this.place(root, token.name)));
+
+    sorted.forEach(token => {
+      const path = paths.get(token.name)!;
+      const group = this.getGroup(root, path.slice(0, -1));
+      group[path[path.length - 1]] = this.toDTCGToken(token, paths);
+    });
+
+    return root;
+  }
+
+  /**
+   * Claims a path for the token. When a shorter token already owns a group
+   * key, the remaining segments are kept together ('blue-500').
+   */
+  private place(root: DTCGGroup, name: string): string[] {
+    const segments = name.replace(/^--(made-)?/, '').split('-').filter(Boolean);
+    const path: string[] = [];
+    let group = root;
+
+    for (let index = 0; index < segments.length; index++) {
+      const isLast = index === segments.length - 1;
+      const existing = group[segments[index]];
+
+      if (isLast || (existing && this.isToken(existing))) {
+        const key = segments.slice(index).join('-');
+        group[key] = { $value: null };
+        path.push(key);
+        return path;
+      }
+
+      if (!existing) group[segments[index]] = {};
+      group = group[segments[index]] as DTCGGroup;
+      path.push(segments[index]);
+    }
+
+    return path;
+  }
+
+  private getGroup(root: DTCGGroup, path: string[]): DTCGGroup {
+    return path.reduce((group, key) => group[key] as DTCGGroup, root);
+  }
+
+  private toDTCGToken(token: MADEToken, paths: Map<string, string[]>): DTCGToken {
+    const value = this.toAliases(token.value.trim(), paths);
+    const type = token.type || this.inferType(token, token.resolvedValue || token.value);
+    const composite = type ? this.toComposite(value, type) : undefined;
+
+    const result: DTCGToken = { $value: composite ?? value };
+    // Composite types need object values; fall back to an untyped string
+    if (type && (composite !== undefined || !['shadow', 'typography', 'border', 'transition'].includes(type))) {
+      result.$type = type;
+    }
+    if (token.description) result.$description = token.description;
+    if (token.deprecated) result.$deprecated = token.deprecated;
+    return result;
+  }
+
+  private toAliases(value: string, paths: Map<string, string[]>): string {
+    return value.replace(/var\(\s*(--[\w-]+)\s*(?:,[^()]*)?\)/g, (match, name: string) => {
+      const path = paths.get(name);
+      return path ? `{${path.join('.')}}` : match;
+    });
+  }
+
+  private inferType(token: MADEToken, value: string): string | undefined {
+    const trimmed = value.trim();
+
+    switch (token.category) {
+      case 'color':
+        return /^(#|rgb|hsl|oklch|oklab|lab|lch|color\()/i.test(trimmed) || /^[a-z]+$/i.test(trimmed) ? 'color' : undefined;
+      case 'shadow':
+        return 'shadow';
+      case 'time':
+        if (DURATION.test(trimmed)) return 'duration';
+        return /^cubic-bezier\(/.test(trimmed) ? 'cubicBezier' : undefined;
+      case 'typography':
+        if (/^\d{3}$/.test(trimmed) || /^(normal|bold|lighter|bolder)$/.test(trimmed)) return 'fontWeight';
+        if (LENGTH.test(trimmed)) return 'dimension';
+        return /,|^['"]/.test(trimmed) ? 'fontFamily' : undefined;
+      default:
+        if (LENGTH.test(trimmed) && /[a-z%]$/.test(trimmed)) return 'dimension';
+        return /^-?[\d.]+$/.test(trimmed) ? 'number' : undefined;
+    }
+  }
+
+  private toComposite(value: string, type: string): unknown {
+    // Aliases stay aliases
+    if (/^\{[^{}]+\}$/.test(value)) return value;
+
+    switch (type) {
+      case 'shadow': {
+        const layers = this.splitTopLevel(value, ',').map(layer => this.toShadow(layer));
+        if (layers.some(layer => !layer)) return undefined;
+        return layers.length === 1 ? layers[0] : layers;
+      }
+      case 'typography':
+        return this.toTypography(value);
+      case 'border': {
+        const [width, style, color] = this.splitTopLevel(value, ' ');
+        return width && style && color ? { width, style, color } : undefined;
+      }
+      case 'transition': {
+        const [duration, timingFunction, delay] = this.splitTopLevel(value, ' ');
+        return duration && timingFunction ? { duration, timingFunction, delay: delay || '0ms' } : undefined;
+      }
+      case 'fontFamily':
+        return this.splitTopLevel(value, ',').map(family => family.replace(/^['"]|['"]$/g, ''));
+      case 'cubicBezier': {
+        const points = value.match(/^cubic-bezier\(([^)]*)\)$/);
+        return points ? points[1].split(',').map(point => Number(point.trim())) : undefined;
+      }
+      case 'number':
+      case 'fontWeight':
+        return /^-?[\d.]+$/.test(value) ? Number(value) : value;
+      default:
+        return undefined;
+    }
+  }
+
+  private toShadow(layer: string): Record<string, unknown> | undefined {
+    const parts = this.splitTopLevel(layer, ' ');
+    const inset = parts[0] === 'inset';
+    if (inset) parts.shift();
+
+    const lengths = parts.filter(part => LENGTH.test(part) && !/^\{/.test(part));
+    const colors = parts.filter(part => !lengths.includes(part));
+    if (lengths.length < 2 || colors.length !== 1) return undefined;
+
+    const shadow: Record<string, unknown> = {
+      color: colors[0],
+      offsetX: lengths[0],
+      offsetY: lengths[1],
+      blur: lengths[2] || '0',
+      spread: lengths[3] || '0'
+    };
+    if (inset) shadow.inset = true;
+    return shadow;
+  }
+
+  private toTypography(value: string): Record<string, unknown> | undefined {
+    const match = value.match(/^(?:(italic|oblique)\s+)?(?:(\d{3}|normal|bold|\{[^}]+\})\s+)?(\S+?)(?:\/(\S+))?\s+(.+)$/);
+    if (!match) return undefined;
+
+    const [, fontStyle, fontWeight, fontSize, lineHeight, fontFamily] = match;
+    const typography: Record<string, unknown> = {
+      fontFamily: fontFamily.startsWith('{')
+        ? fontFamily
+        : this.splitTopLevel(fontFamily, ',').map(family => family.replace(/^['"]|['"]$/g, '')),
+      fontSize
+    };
+    if (fontWeight) typography.fontWeight = /^\d+$/.test(fontWeight) ? Number(fontWeight) : fontWeight;
+    if (lineHeight) typography.lineHeight = /^[\d.]+$/.test(lineHeight) ? Number(lineHeight) : lineHeight;
+    if (fontStyle) typography.fontStyle = fontStyle;
+    return typography;
+  }
+
+  private splitTopLevel(value: string, separator: ' ' | ','): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of value) {
+      if (char === '(' || char === '{') depth++;
+      if (char === ')' || char === '}') depth--;
+
+      if (depth === 0 && (separator === ' ' ? /\s/.test(char) : char === separator)) {
+        if (current.trim()) parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    if (current.trim()) parts.push(current.trim());
+
+    return parts;
+  }
+
+  private isToken(node: DTCGGroup[string]): node is DTCGToken {
+    return typeof node === 'object' && node !== null && '$value' in node;
+  }
+}
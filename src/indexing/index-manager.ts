@@ -1,13 +1,20 @@
 import fs from 'fs-extra';
 import * as path from 'path';
-import { MADEToken, MADEComponent, IndexMeta } from '../types.js';
+import * as glob from 'glob';
+import process from 'node:process';
+import { MADEToken, MADEComponent, MADEClass, IndexMeta, SourceLocation } from '../types.js';
 import { CSSParser } from '../parsers/css-parser.js';
 import { StorybookParser } from '../parsers/storybook-parser.js';
+import { TokenGraph } from './token-graph.js';
 import { logger } from '../utils/logger.js';
 
+// Placeholders: {commit}, {ref}, {path}, {startLine}, {endLine}
+const DEFAULT_PERMALINK_TEMPLATE = 'https://github.com/Mastercard/made/blob/{commit}/{path}#L{startLine}-L{endLine}';
+
 export class IndexManager {
   private tokens: MADEToken[] = [];
   private components: MADEComponent[] = [];
+  private classes: MADEClass[] = [];
   private indexMeta: IndexMeta | null = null;
   private readonly indexDir = './data/indexes';
   private readonly cacheDir = './data/cache';
@@ -26,7 +33,10 @@ export class IndexManager {
       // Load components
       await this.loadComponents();
       
-      logger.info(`Loaded ${this.tokens.length} tokens and ${this.components.length} components`);
+      // Load CSS classes
+      await this.loadClasses();
+      
+      logger.info(`Loaded ${this.tokens.length} tokens, ${this.components.length} components and ${this.classes.length} classes`);
     } catch (error) {
       logger.warn('Failed to load existing indexes, will rebuild:', error);
       // If loading fails, we'll rely on sync to rebuild
@@ -40,6 +50,7 @@ export class IndexManager {
       // Clear existing data
       this.tokens = [];
       this.components = [];
+      this.classes = [];
       
       // Parse CSS files
       await this.parseCSSFiles(repoPath);
@@ -47,6 +58,10 @@ export class IndexManager {
       // Parse Storybook stories
       await this.parseStorybookFiles(repoPath);
       
+      // Pin every source location to the indexed commit
+      const permalinkTemplate = process.env.MADE_PERMALINK_TEMPLATE || DEFAULT_PERMALINK_TEMPLATE;
+      this.annotateSources(upstreamRef, upstreamCommit, permalinkTemplate);
+      
       // Create index metadata
       this.indexMeta = {
         version: '1.0.0',
@@ -54,13 +69,15 @@ export class IndexManager {
         upstreamRef,
         buildTime: new Date().toISOString(),
         componentsCount: this.components.length,
-        tokensCount: this.tokens.length
+        tokensCount: this.tokens.length,
+        classesCount: this.classes.length,
+        permalinkTemplate
       };
       
       // Save indexes
       await this.saveIndexes();
       
-      logger.info(`Successfully built indexes: ${this.tokens.length} tokens, ${this.components.length} components`);
+      logger.info(`Successfully built indexes: ${this.tokens.length} tokens, ${this.components.length} components, ${this.classes.length} classes`);
     } catch (error) {
       logger.error('Failed to build indexes:', error);
       throw error;
@@ -127,7 +144,7 @@ export class IndexManager {
         logger.info(`Found CSS tokens file: ${cssPath}`);
         
         try {
-          await cssParser.parseMadeCSSVariables(cssPath);
+          await cssParser.parseMadeCSSVariables(cssPath, this.getPathTheme(cssPath));
         } catch (error) {
           logger.warn(`Failed to parse CSS tokens file ${cssPath}:`, error instanceof Error ? error.message : 'Unknown error');
           continue; // Continue with next file
@@ -141,7 +158,7 @@ export class IndexManager {
         logger.info(`Found JSON tokens file: ${jsonPath}`);
         
         try {
-          await cssParser.parseMadeTokensJSON(jsonPath);
+          await cssParser.parseMadeTokensJSON(jsonPath, this.getPathTheme(jsonPath));
         } catch (error) {
           logger.warn(`Failed to parse JSON tokens file ${jsonPath}:`, error instanceof Error ? error.message : 'Unknown error');
           continue; // Continue with next file
@@ -149,6 +166,24 @@ export class IndexManager {
       }
     }
 
+    // W3C design token files (*.tokens.json / *.tokens) anywhere in the repo
+    const dtcgTokenPaths = glob.sync('**/*.{tokens.json,tokens}', {
+      cwd: repoPath,
+      absolute: true,
+      ignore: ['**/node_modules/**', '**/dist/**']
+    }).sort();
+
+    for (const jsonPath of dtcgTokenPaths) {
+      logger.info(`Found design tokens file: ${jsonPath}`);
+      
+      try {
+        await cssParser.parseMadeTokensJSON(jsonPath, this.getPathTheme(jsonPath));
+      } catch (error) {
+        logger.warn(`Failed to parse design tokens file ${jsonPath}:`, error instanceof Error ? error.message : 'Unknown error');
+        continue; // Continue with next file
+      }
+    }
+
     // Look for main CSS files for utility classes
     const mainCSSPaths = [
       path.join(repoPath, 'packages', 'made-css', 'dist', '3.0.0', 'made.css'),
@@ -174,7 +209,30 @@ export class IndexManager {
       }
     }
     
-    this.tokens = cssParser.getTokens();
+    // Resolve var() aliases across all token files
+    const tokenGraph = new TokenGraph();
+    await tokenGraph.initialize(cssParser.getTokens());
+    
+    this.tokens = tokenGraph.getTokens();
+    this.tokens.forEach(token => {
+      if (token.source) token.source.path = path.relative(repoPath, token.source.path);
+    });
+    
+    // Class vocabulary from made.css
+    this.classes = cssParser.getClasses();
+    this.classes.forEach(cls => {
+      if (cls.source) cls.source.path = path.relative(repoPath, cls.source.path);
+    });
+  }
+
+  /**
+   * Theme of a token file from its location: themes/b2b/tokens.json → 'b2b',
+   * assets/partnerbank-test-theme/tokens.json → 'partnerbank-test'.
+   */
+  private getPathTheme(filePath: string): string | undefined {
+    const normalized = filePath.split(path.sep).join('/');
+    return normalized.match(/\/themes\/([^/]+)\//)?.[1]
+      ?? normalized.match(/\/([^/]+)-theme\//)?.[1];
   }
 
   private async parseStorybookFiles(repoPath: string): Promise<void> {
@@ -203,6 +261,45 @@ export class IndexManager {
     const storybookParser = new StorybookParser(storybookPath);
     await storybookParser.parseStories();
     this.components = storybookParser.getComponents();
+    
+    // Story paths are relative to the Storybook root; make them repo-relative
+    const rebase = (source: SourceLocation) => {
+      source.path = path.relative(repoPath, path.resolve(storybookPath!, source.path));
+    };
+    this.components.forEach(component => {
+      component.sources?.forEach(rebase);
+      component.examples.forEach(example => example.source && rebase(example.source));
+    });
+  }
+
+  private annotateSources(upstreamRef: string, upstreamCommit: string, template: string): void {
+    const annotate = (source: SourceLocation | undefined) => {
+      if (!source) return;
+      
+      source.path = source.path.split(path.sep).join('/');
+      source.upstreamCommit = upstreamCommit;
+      source.upstreamRef = upstreamRef;
+      source.permalink = this.formatPermalink(template, source);
+    };
+    
+    this.tokens.forEach(token => annotate(token.source));
+    this.classes.forEach(cls => annotate(cls.source));
+    this.components.forEach(component => {
+      component.sources?.forEach(annotate);
+      component.examples.forEach(example => annotate(example.source));
+    });
+  }
+
+  private formatPermalink(template: string, source: SourceLocation): string {
+    // Without a line range, link to the whole file
+    const base = source.startLine ? template : template.replace(/#[^#]*\{(startLine|endLine)\}.*$/, '');
+    
+    return base
+      .replace(/\{commit\}/g, source.upstreamCommit || source.upstreamRef || '')
+      .replace(/\{ref\}/g, source.upstreamRef || '')
+      .replace(/\{path\}/g, source.path)
+      .replace(/\{startLine\}/g, String(source.startLine ?? ''))
+      .replace(/\{endLine\}/g, String(source.endLine ?? source.startLine ?? ''));
   }
 
   private async loadIndexMeta(): Promise<void> {
@@ -226,38 +323,49 @@ export class IndexManager {
     }
   }
 
+  private async loadClasses(): Promise<void> {
+    const classesPath = path.join(this.indexDir, 'classes.json');
+    if (await fs.pathExists(classesPath)) {
+      this.classes = await fs.readJson(classesPath);
+    }
+  }
+
+  /**
+   * index-meta.json is written last and every file is swapped in with a
+   * rename, so a watcher that sees the new meta file (see watchIndexes)
+   * only ever reads a complete index.
+   */
   private async saveIndexes(): Promise<void> {
     await fs.ensureDir(this.indexDir);
     
-    // Save metadata
-    if (this.indexMeta) {
-      await fs.writeJSON(
-        path.join(this.indexDir, 'index-meta.json'),
-        this.indexMeta,
-        { spaces: 2 }
-      );
-    }
-    
     // Save tokens
-    await fs.writeJSON(
-      path.join(this.indexDir, 'tokens.json'),
-      this.tokens,
-      { spaces: 2 }
-    );
+    await this.writeIndexFile('tokens.json', this.tokens);
     
     // Save components
-    await fs.writeJSON(
-      path.join(this.indexDir, 'components.json'),
-      this.components,
-      { spaces: 2 }
-    );
+    await this.writeIndexFile('components.json', this.components);
+    
+    // Save CSS classes
+    await this.writeIndexFile('classes.json', this.classes);
     
     // Create search index cache
     await this.buildSearchCache();
     
+    // Save metadata
+    if (this.indexMeta) {
+      await this.writeIndexFile('index-meta.json', this.indexMeta);
+    }
+    
     logger.info('Indexes saved successfully');
   }
 
+  private async writeIndexFile(fileName: string, data: unknown): Promise<void> {
+    const filePath = path.join(this.indexDir, fileName);
+    const tempPath = `${filePath}.tmp`;
+    
+    await fs.writeJSON(tempPath, data, { spaces: 2 });
+    await fs.move(tempPath, filePath, { overwrite: true });
+  }
+
   private async buildSearchCache(): Promise<void> {
     // Build simplified search index for faster lookups
     const searchIndex = {
@@ -277,6 +385,7 @@ export class IndexManager {
       }))
     };
     
+    await fs.ensureDir(this.cacheDir);
     await fs.writeJSON(
       path.join(this.cacheDir, 'search-index.json'),
       searchIndex,
@@ -293,6 +402,10 @@ export class IndexManager {
     return [...this.components];
   }
 
+  getClasses(): MADEClass[] {
+    return [...this.classes];
+  }
+
   getIndexMeta(): IndexMeta | null {
     return this.indexMeta;
   }
@@ -313,7 +426,7 @@ export class IndexManager {
 
   findComponentByName(name: string): MADEComponent | undefined {
     return this.components.find(comp =>
-      comp.name.toLowerCase() === name.toLowerCase()
+      comp.name.toLowerCase() === name.toLowerCase() || comp.id === name
     );
   }
 
@@ -330,6 +443,24 @@ export class IndexManager {
     );
   }
 
+  // Watch index-meta.json for rebuilds by the sync/build scripts; it is saved last, after the files it describes
+  watchIndexes(onChange: () => void | Promise<void>, interval: number = 5000): () => void {
+    const metaPath = path.join(this.indexDir, 'index-meta.json');
+    
+    const listener = (curr: fs.Stats, prev: fs.Stats) => {
+      if (curr.mtimeMs === prev.mtimeMs) return;
+      
+      logger.info('Index metadata changed, reloading indexes...');
+      Promise.resolve(onChange()).catch(error => {
+        logger.error('Failed to handle index update:', error);
+      });
+    };
+    
+    fs.watchFile(metaPath, { interval, persistent: false }, listener);
+    
+    return () => fs.unwatchFile(metaPath, listener);
+  }
+
   // Validation methods
   isIndexOutdated(maxAge: number = 24 * 60 * 60 * 1000): boolean {
     if (!this.indexMeta?.buildTime) return true;
@@ -363,11 +494,13 @@ export class IndexManager {
   async exportIndexes(): Promise<{
     tokens: MADEToken[];
     components: MADEComponent[];
+    classes: MADEClass[];
     meta: IndexMeta | null;
   }> {
     return {
       tokens: this.getTokens(),
       components: this.getComponents(),
+      classes: this.getClasses(),
       meta: this.getIndexMeta()
     };
   }
@@ -376,10 +509,12 @@ export class IndexManager {
   async importIndexes(data: {
     tokens: MADEToken[];
     components: MADEComponent[];
+    classes?: MADEClass[];
     meta: IndexMeta | null;
   }): Promise<void> {
     this.tokens = data.tokens;
     this.components = data.components;
+    this.classes = data.classes ?? [];
     this.indexMeta = data.meta;
     
     await this.saveIndexes();
@@ -0,0 +1,345 @@
+import { MADEToken, ResolveTokenResponse, CompareThemesResponse } from '../types.js';
+import { TokenValueParser } from '../parsers/token-value-parser.js';
+import { logger } from '../utils/logger.js';
+
+interface VarReference {
+  name: string;
+  fallback?: string;
+  start: number;
+  end: number;
+}
+
+// Tokens as seen by one theme, keyed by name
+interface ThemeContext {
+  tokens: Map<string, MADEToken>;
+  resolved: Map<string, string>;
+  usedBy: Map<string, string[]>;
+}
+
+/**
+ * Reference graph between tokens that alias each other through `var()`.
+ * Resolves every token to its final value, records the alias chain it
+ * follows and which tokens reference it.
+ *
+ * Tokens may belong to a theme. The default set holds one token per name
+ * (unthemed tokens first, otherwise the first theme that defines it); a
+ * theme's set is the default set with that theme's values layered on top,
+ * the way a `[data-theme]` block overrides `:root`. Each theme resolves
+ * `var()` references against its own set.
+ */
+export class TokenGraph {
+  private tokens: MADEToken[] = [];
+  private contexts = new Map<string, ThemeContext>();
+  private valueParser = new TokenValueParser();
+
+  async initialize(tokens: MADEToken[]): Promise<void> {
+    this.tokens = tokens;
+    this.contexts.clear();
+
+    const defaults = this.defaultSet(tokens);
+    const themes = [undefined, ...this.getThemes()];
+
+    themes.forEach(theme => {
+      const context: ThemeContext = {
+        tokens: new Map(this.effectiveSet(defaults, theme).map(token => [token.name, token])),
+        resolved: new Map(),
+        usedBy: new Map()
+      };
+
+      context.tokens.forEach(token => {
+        this.collectReferenceNames(token.value).forEach(reference => {
+          const users = context.usedBy.get(reference) || [];
+          if (!users.includes(token.name)) users.push(token.name);
+          context.usedBy.set(reference, users);
+        });
+      });
+      context.tokens.forEach(token => this.resolveValue(context, token.name, []));
+
+      this.contexts.set(theme ?? '', context);
+    });
+
+    logger.info(`Token graph initialized for ${this.contexts.size} theme(s)`);
+  }
+
+  /**
+   * Tokens annotated with `resolvedValue`, `aliasChain`, `usedBy` and the
+   * `parsed` resolved value.
+   */
+  getTokens(): MADEToken[] {
+    return this.tokens.map(token => this.annotate(this.getContext(token.theme), token));
+  }
+
+  getThemes(): string[] {
+    return [...new Set(this.tokens.map(token => token.theme).filter((theme): theme is string => !!theme))].sort();
+  }
+
+  hasTheme(theme: string | undefined): boolean {
+    const normalized = this.normalizeTheme(theme);
+    return !normalized || this.contexts.has(normalized);
+  }
+
+  /**
+   * Effective tokens of a theme, resolved in that theme. Without a theme the
+   * default set is returned as indexed.
+   */
+  getThemeTokens(theme?: string): MADEToken[] {
+    const normalized = this.normalizeTheme(theme);
+    const context = this.getContext(normalized);
+    if (!normalized) return [...context.tokens.values()];
+
+    return [...context.tokens.values()].map(token => this.annotate(context, token));
+  }
+
+  /**
+   * Tokens whose resolved value differs between two themes.
+   */
+  compareThemes(base: string | undefined, target: string): CompareThemesResponse {
+    const baseTheme = this.normalizeTheme(base);
+    const targetTheme = this.normalizeTheme(target);
+    const baseContext = this.getContext(baseTheme);
+    const targetContext = this.getContext(targetTheme);
+
+    const response: CompareThemesResponse = {
+      base: baseTheme ?? 'default',
+      target: targetTheme ?? 'default',
+      changed: [],
+      onlyInBase: [],
+      onlyInTarget: [],
+      unchangedCount: 0
+    };
+
+    baseContext.tokens.forEach((token, name) => {
+      const other = targetContext.tokens.get(name);
+      if (!other) {
+        response.onlyInBase.push(name);
+        return;
+      }
+
+      const baseResolvedValue = baseContext.resolved.get(name) ?? token.value;
+      const targetResolvedValue = targetContext.resolved.get(name) ?? other.value;
+      if (baseResolvedValue === targetResolvedValue) {
+        response.unchangedCount++;
+        return;
+      }
+
+      response.changed.push({
+        name,
+        category: token.category,
+        baseValue: token.value,
+        targetValue: other.value,
+        baseResolvedValue,
+        targetResolvedValue
+      });
+    });
+
+    targetContext.tokens.forEach((_, name) => {
+      if (!baseContext.tokens.has(name)) response.onlyInTarget.push(name);
+    });
+
+    return response;
+  }
+
+  /**
+   * Accepts '--made-color-action', 'made-color-action' or 'color-action'.
+   */
+  resolve(name: string, theme?: string): ResolveTokenResponse | undefined {
+    const context = this.getContext(this.normalizeTheme(theme));
+    const token = this.findToken(context, name);
+    if (!token) return undefined;
+
+    const aliasChain = this.getAliasChain(context, token.name);
+    const chain = [token.name, ...aliasChain].map(step => ({
+      name: step,
+      value: context.tokens.get(step)?.value ?? ''
+    }));
+    const usedBy = [...(context.usedBy.get(token.name) || [])].sort();
+
+    const response: ResolveTokenResponse = {
+      name: token.name,
+      value: token.value,
+      resolvedValue: context.resolved.get(token.name) ?? token.value,
+      category: token.category,
+      isAlias: aliasChain.length > 0,
+      chain,
+      usedBy
+    };
+    if (token.theme) response.theme = token.theme;
+
+    const missing = this.findReferences(token.value)
+      .map(reference => reference.name)
+      .filter(reference => !context.tokens.has(reference));
+    if (missing.length > 0) response.unresolvedReferences = missing;
+
+    if (aliasChain.length === 0 && usedBy.length > 0) {
+      response.note = `${token.name} is a base value; prefer a semantic token that references it: ${usedBy.join(', ')}`;
+    }
+
+    return response;
+  }
+
+  private annotate(context: ThemeContext, token: MADEToken): MADEToken {
+    const annotated: MADEToken = { ...token, resolvedValue: context.resolved.get(token.name) ?? token.value };
+    delete annotated.aliasChain;
+    delete annotated.usedBy;
+    delete annotated.parsed;
+
+    const chain = this.getAliasChain(context, token.name);
+    if (chain.length > 0) annotated.aliasChain = chain;
+
+    const users = context.usedBy.get(token.name);
+    if (users) annotated.usedBy = [...users].sort();
+
+    const parsed = this.valueParser.parseToken(annotated);
+    if (parsed) annotated.parsed = parsed;
+
+    return annotated;
+  }
+
+  // 'default', '' and ':root' all mean the unthemed set
+  private normalizeTheme(theme?: string): string | undefined {
+    const trimmed = theme?.trim();
+    return !trimmed || trimmed === 'default' || trimmed === ':root' ? undefined : trimmed;
+  }
+
+  private defaultSet(tokens: MADEToken[]): MADEToken[] {
+    const byName = new Map<string, MADEToken>();
+
+    tokens.forEach(token => {
+      const existing = byName.get(token.name);
+      if (!existing || (existing.theme && !token.theme)) {
+        byName.set(token.name, token);
+      }
+    });
+
+    return [...byName.values()];
+  }
+
+  private effectiveSet(defaults: MADEToken[], theme: string | undefined): MADEToken[] {
+    if (!theme) return defaults;
+
+    const overrides = new Map<string, MADEToken>();
+    this.tokens.forEach(token => {
+      if (token.theme === theme && !overrides.has(token.name)) overrides.set(token.name, token);
+    });
+
+    const names = new Set(defaults.map(token => token.name));
+    return [
+      ...defaults.map(token => overrides.get(token.name) ?? token),
+      ...[...overrides.values()].filter(token => !names.has(token.name))
+    ];
+  }
+
+  // Unknown themes fall back to the default set
+  private getContext(theme: string | undefined): ThemeContext {
+    return this.contexts.get(theme ?? '')
+      ?? this.contexts.get('')
+      ?? this.contexts.values().next().value
+      ?? { tokens: new Map(), resolved: new Map(), usedBy: new Map() };
+  }
+
+  private findToken(context: ThemeContext, name: string): MADEToken | undefined {
+    const bare = name.trim().replace(/^var\(\s*|\s*\)$/g, '').replace(/^-+/, '');
+    return context.tokens.get(`--${bare}`) || context.tokens.get(`--made-${bare}`);
+  }
+
+  /**
+   * Tokens followed while the value is nothing but a single `var()`,
+   * e.g. --made-color-action → --made-color-brand → --made-color-blue-500.
+   */
+  private getAliasChain(context: ThemeContext, name: string): string[] {
+    const chain: string[] = [];
+    let current = context.tokens.get(name);
+
+    while (current) {
+      const alias = this.asAlias(current.value);
+      if (!alias || alias === name || chain.includes(alias)) break;
+
+      chain.push(alias);
+      current = context.tokens.get(alias);
+    }
+
+    return chain;
+  }
+
+  private asAlias(value: string): string | undefined {
+    const references = this.findReferences(value);
+    const trimmed = value.trim();
+    if (references.length !== 1) return undefined;
+
+    const [reference] = references;
+    return reference.start === 0 && reference.end === trimmed.length ? reference.name : undefined;
+  }
+
+  private resolveValue(context: ThemeContext, name: string, stack: string[]): string | undefined {
+    if (context.resolved.has(name)) return context.resolved.get(name);
+
+    const token = context.tokens.get(name);
+    if (!token) return undefined;
+
+    if (stack.includes(name)) {
+      logger.warn(`Circular token reference: ${[...stack, name].join(' → ')}`);
+      return undefined;
+    }
+
+    const value = this.substitute(context, token.value.trim(), [...stack, name]);
+    context.resolved.set(name, value);
+    return value;
+  }
+
+  private substitute(context: ThemeContext, value: string, stack: string[]): string {
+    let result = '';
+    let offset = 0;
+
+    this.findReferences(value).forEach(reference => {
+      const replacement = this.resolveValue(context, reference.name, stack)
+        ?? (reference.fallback !== undefined ? this.substitute(context, reference.fallback, stack) : undefined);
+
+      result += value.slice(offset, reference.start) + (replacement ?? value.slice(reference.start, reference.end));
+      offset = reference.end;
+    });
+
+    return result + value.slice(offset);
+  }
+
+  // Every token named in a value, including those in var() fallbacks
+  private collectReferenceNames(value: string): string[] {
+    return this.findReferences(value).flatMap(reference => [
+      reference.name,
+      ...(reference.fallback ? this.collectReferenceNames(reference.fallback) : [])
+    ]);
+  }
+
+  /**
+   * Top-level `var(--name, fallback)` calls; fallbacks may contain nested parentheses.
+   */
+  private findReferences(value: string): VarReference[] {
+    const references: VarReference[] = [];
+    const trimmed = value.trim();
+    const pattern = /var\(\s*(--[\w-]+)\s*/g;
+    let match;
+
+    while ((match = pattern.exec(trimmed)) !== null) {
+      let depth = 1;
+      let index = pattern.lastIndex;
+      let comma = -1;
+
+      for (; index < trimmed.length && depth > 0; index++) {
+        const char = trimmed[index];
+        if (char === '(') depth++;
+        else if (char === ')') depth--;
+        else if (char === ',' && depth === 1 && comma === -1) comma = index;
+      }
+      if (depth > 0) break;
+
+      references.push({
+        name: match[1],
+        fallback: comma === -1 ? undefined : trimmed.slice(comma + 1, index - 1).trim(),
+        start: match.index,
+        end: index
+      });
+      pattern.lastIndex = index;
+    }
+
+    return references;
+  }
+}
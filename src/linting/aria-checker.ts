@@ -0,0 +1,359 @@
+import type { CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { LintIssue } from '../types.js';
+
+export interface AriaViolation {
+  element: Element;
+  // Attribute at fault, used to point the issue at it
+  attribute?: string;
+  type: LintIssue['type'];
+  ruleId: string;
+  message: string;
+  fixSuggestion: string;
+}
+
+// WAI-ARIA 1.2 roles authors may use
+const ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption', 'cell',
+  'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'deletion',
+  'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure', 'form', 'generic', 'grid', 'gridcell',
+  'group', 'heading', 'img', 'insertion', 'link', 'list', 'listbox', 'listitem', 'log', 'main', 'marquee',
+  'math', 'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none',
+  'note', 'option', 'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row',
+  'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton', 'status',
+  'strong', 'subscript', 'superscript', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term', 'textbox',
+  'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem'
+]);
+
+// Roles that only exist to structure the taxonomy
+const ABSTRACT_ROLES = new Set([
+  'command', 'composite', 'input', 'landmark', 'range', 'roletype', 'section', 'sectionhead', 'select',
+  'structure', 'widget', 'window'
+]);
+
+// Role → roles of which it must own at least one element
+const REQUIRED_OWNED: Record<string, string[]> = {
+  feed: ['article'],
+  grid: ['row'],
+  list: ['listitem'],
+  listbox: ['option'],
+  menu: ['menuitem', 'menuitemcheckbox', 'menuitemradio'],
+  menubar: ['menuitem', 'menuitemcheckbox', 'menuitemradio'],
+  radiogroup: ['radio'],
+  row: ['cell', 'columnheader', 'gridcell', 'rowheader'],
+  rowgroup: ['row'],
+  table: ['row'],
+  tablist: ['tab'],
+  tree: ['treeitem'],
+  treegrid: ['row']
+};
+
+// Role → roles one of which must own it
+const REQUIRED_CONTEXT: Record<string, string[]> = {
+  cell: ['row'],
+  columnheader: ['row'],
+  gridcell: ['row'],
+  listitem: ['list', 'directory'],
+  menuitem: ['menu', 'menubar', 'group'],
+  menuitemcheckbox: ['menu', 'menubar', 'group'],
+  menuitemradio: ['menu', 'menubar', 'group'],
+  option: ['listbox', 'group'],
+  row: ['grid', 'rowgroup', 'table', 'treegrid'],
+  rowgroup: ['grid', 'table', 'treegrid'],
+  rowheader: ['row'],
+  tab: ['tablist'],
+  treeitem: ['tree', 'group']
+};
+
+// Containers that may sit between an element and its owner (listbox > group > option)
+const GROUPING_ROLES = new Set(['group', 'rowgroup']);
+
+const REQUIRED_ATTRIBUTES: Record<string, string[]> = {
+  checkbox: ['aria-checked'],
+  combobox: ['aria-expanded'],
+  heading: ['aria-level'],
+  menuitemcheckbox: ['aria-checked'],
+  menuitemradio: ['aria-checked'],
+  meter: ['aria-valuenow'],
+  radio: ['aria-checked'],
+  scrollbar: ['aria-controls', 'aria-valuenow'],
+  slider: ['aria-valuenow'],
+  switch: ['aria-checked']
+};
+
+// Native elements that already expose the state a role requires
+const NATIVE_ATTRIBUTES: Record<string, string> = {
+  'aria-checked': 'input[type="checkbox"], input[type="radio"]',
+  'aria-level': 'h1, h2, h3, h4, h5, h6',
+  'aria-valuenow': 'input[type="range"], input[type="number"], progress, meter'
+};
+
+// Roles that cannot be named by authors
+const NAMING_PROHIBITED = new Set([
+  'caption', 'code', 'deletion', 'emphasis', 'generic', 'insertion', 'none', 'paragraph', 'presentation',
+  'strong', 'subscript', 'superscript'
+]);
+
+const ID_REFERENCE_ATTRIBUTES = [
+  'aria-labelledby', 'aria-describedby', 'aria-controls', 'aria-owns', 'aria-activedescendant',
+  'aria-errormessage', 'aria-details', 'aria-flowto'
+];
+
+// Roles whose elements are transparent when looking for owners and owned elements
+const TRANSPARENT_ROLES = new Set(['generic', 'none', 'presentation']);
+
+const INTERACTIVE_ROLES = new Set([
+  'button', 'checkbox', 'combobox', 'link', 'listbox', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
+  'option', 'radio', 'searchbox', 'slider', 'spinbutton', 'switch', 'tab', 'textbox', 'treeitem'
+]);
+
+// Widgets that live inside other widgets by design (listbox > option, treeitem > group > treeitem)
+const OWNED_WIDGET_ROLES = new Set(['option', 'treeitem']);
+
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button', checkbox: 'checkbox', email: 'textbox', image: 'button', number: 'spinbutton',
+  radio: 'radio', range: 'slider', reset: 'button', search: 'searchbox', submit: 'button', tel: 'textbox',
+  text: 'textbox', url: 'textbox'
+};
+
+const IMPLICIT_ROLES: Record<string, string> = {
+  article: 'article', aside: 'complementary', b: 'generic', blockquote: 'blockquote', button: 'button',
+  caption: 'caption', code: 'code', del: 'deletion', details: 'group', dialog: 'dialog', div: 'generic',
+  em: 'emphasis', fieldset: 'group', figure: 'figure', footer: 'contentinfo', form: 'form', h1: 'heading',
+  h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading', header: 'banner', hr: 'separator',
+  i: 'generic', ins: 'insertion', li: 'listitem', main: 'main', menu: 'list', meter: 'meter', nav: 'navigation',
+  ol: 'list', optgroup: 'group', option: 'option', output: 'status', p: 'paragraph', progress: 'progressbar',
+  small: 'generic', span: 'generic', strong: 'strong', sub: 'subscript', sup: 'superscript', table: 'table',
+  tbody: 'rowgroup', td: 'cell', textarea: 'textbox', tfoot: 'rowgroup', th: 'columnheader', thead: 'rowgroup',
+  time: 'time', tr: 'row', u: 'generic', ul: 'list'
+};
+
+/**
+ * Checks markup against the WAI-ARIA 1.2 role model: valid roles, required
+ * owned elements and context roles, required and prohibited attributes per
+ * role, id references, duplicate ids and nested interactive elements.
+ * Roles come from the role attribute or, without one, from the element's
+ * implicit HTML semantics.
+ */
+export class AriaChecker {
+  check($: CheerioAPI): AriaViolation[] {
+    const violations: AriaViolation[] = [];
+    const ids = this.collectIds($, violations);
+
+    $<Element, string>('*').each((_: number, element: Element) => {
+      this.checkRoleAttribute($, element, violations);
+
+      const role = this.role($, element);
+      if (role) {
+        this.checkOwnedElements($, element, role, violations);
+        this.checkContext($, element, role, violations);
+        this.checkAttributes($, element, role, violations);
+      }
+
+      this.checkReferences($, element, ids, violations);
+      this.checkNestedInteractive($, element, violations);
+    });
+
+    return violations;
+  }
+
+  // Ids in the document; every repeat of an id is a violation
+  private collectIds($: CheerioAPI, violations: AriaViolation[]): Set<string> {
+    const ids = new Set<string>();
+
+    $('[id]').each((_: number, element: Element) => {
+      const id = $(element).attr('id') ?? '';
+      if (ids.has(id)) {
+        violations.push({
+          element,
+          attribute: 'id',
+          type: 'error',
+          ruleId: 'a11y/duplicate-id',
+          message: `Duplicate id '${id}'`,
+          fixSuggestion: 'Give every element a unique id; ARIA references and labels resolve to the first one only'
+        });
+      }
+      ids.add(id);
+    });
+
+    return ids;
+  }
+
+  private checkRoleAttribute($: CheerioAPI, element: Element, violations: AriaViolation[]): void {
+    const value: string | undefined = $(element).attr('role');
+    if (value === undefined) return;
+
+    const tokens = value.split(/\s+/).filter(Boolean);
+
+    if (tokens.length === 0) {
+      violations.push(this.roleViolation(element, 'Empty role attribute', 'Remove the role attribute or set a WAI-ARIA role'));
+      return;
+    }
+
+    tokens.filter(token => !ROLES.has(token)).forEach(token => {
+      violations.push(ABSTRACT_ROLES.has(token)
+        ? this.roleViolation(element, `'${token}' is an abstract ARIA role`, `Abstract roles cannot be used in markup; use a concrete role that extends ${token}`)
+        : this.roleViolation(element, `Invalid ARIA role '${token}'`, 'Use a role defined by WAI-ARIA 1.2, e.g. button, dialog, navigation or tab'));
+    });
+  }
+
+  private roleViolation(element: Element, message: string, fixSuggestion: string): AriaViolation {
+    return { element, attribute: 'role', type: 'error', ruleId: 'a11y/aria-role', message, fixSuggestion };
+  }
+
+  private checkOwnedElements($: CheerioAPI, element: Element, role: string, violations: AriaViolation[]): void {
+    const required = REQUIRED_OWNED[role];
+    if (!required || !this.hasExplicitRole($, element) || $(element).attr('aria-busy') === 'true') return;
+
+    const owned = [...this.ownedRoles($, $(element).children().toArray(), role)];
+    (($(element).attr('aria-owns') ?? '').split(/\s+/).filter(Boolean) as string[]).forEach(id => {
+      const target = $('[id]').toArray().find((candidate: Element) => $(candidate).attr('id') === id);
+      if (target) owned.push(this.role($, target) ?? '');
+    });
+
+    if (!owned.some(ownedRole => required.includes(ownedRole))) {
+      violations.push({
+        element,
+        attribute: 'role',
+        type: 'error',
+        ruleId: 'a11y/aria-required-children',
+        message: `Role ${role} must own an element with role ${required.join(' or ')}`,
+        fixSuggestion: `Add ${required.length > 1 ? 'children' : 'a child'} with role="${required[0]}" (or point aria-owns at them)`
+      });
+    }
+  }
+
+  // Roles of the elements a container owns, looking through generic wrappers and groups
+  private ownedRoles($: CheerioAPI, children: Element[], container: string): string[] {
+    return children.flatMap(child => {
+      const role = this.role($, child);
+      if (!role || TRANSPARENT_ROLES.has(role) || (GROUPING_ROLES.has(role) && role !== container)) {
+        return [...(role ? [role] : []), ...this.ownedRoles($, $(child).children().toArray(), container)];
+      }
+      return [role];
+    });
+  }
+
+  private checkContext($: CheerioAPI, element: Element, role: string, violations: AriaViolation[]): void {
+    const context = REQUIRED_CONTEXT[role];
+    if (!context || !this.hasExplicitRole($, element)) return;
+
+    const owner = $(element).parents().toArray()
+      .map((parent: Element) => this.role($, parent))
+      .find((parentRole: string | undefined) => parentRole && !TRANSPARENT_ROLES.has(parentRole) &&
+        !(GROUPING_ROLES.has(parentRole) && !context.includes(parentRole)));
+
+    if (!owner || !context.includes(owner)) {
+      violations.push({
+        element,
+        attribute: 'role',
+        type: 'error',
+        ruleId: 'a11y/aria-required-parent',
+        message: `Role ${role} must be inside an element with role ${context.join(' or ')}`,
+        fixSuggestion: `Wrap it in an element with role="${context[0]}"`
+      });
+    }
+  }
+
+  private checkAttributes($: CheerioAPI, element: Element, role: string, violations: AriaViolation[]): void {
+    const $element = $(element);
+    const explicit = this.hasExplicitRole($, element);
+
+    // Native elements expose their own states, so only explicit roles need the attributes
+    (explicit ? REQUIRED_ATTRIBUTES[role] || [] : [])
+      .filter(attribute => $element.attr(attribute) === undefined && !(NATIVE_ATTRIBUTES[attribute] && $element.is(NATIVE_ATTRIBUTES[attribute])))
+      .forEach(attribute => violations.push({
+        element,
+        attribute: 'role',
+        type: 'error',
+        ruleId: 'a11y/aria-required-attr',
+        message: `Role ${role} requires ${attribute}`,
+        fixSuggestion: `Add ${attribute} and keep it in sync with the element's state`
+      }));
+
+    if (NAMING_PROHIBITED.has(role)) {
+      ['aria-label', 'aria-labelledby']
+        .filter(attribute => $element.attr(attribute) !== undefined)
+        .forEach(attribute => violations.push({
+          element,
+          attribute,
+          type: 'warning',
+          ruleId: 'a11y/aria-prohibited-attr',
+          message: `${attribute} is not allowed on role ${role}${explicit ? '' : ` (<${element.tagName}>)`}`,
+          fixSuggestion: 'Put the text in the content, or use an element or role that can be named (e.g. a landmark, button or img)'
+        }));
+    }
+  }
+
+  private checkReferences($: CheerioAPI, element: Element, ids: Set<string>, violations: AriaViolation[]): void {
+    ID_REFERENCE_ATTRIBUTES.forEach(attribute => {
+      const missing = (($(element).attr(attribute) ?? '').split(/\s+/).filter(Boolean) as string[])
+        .filter(id => !ids.has(id));
+      if (missing.length === 0) return;
+
+      violations.push({
+        element,
+        attribute,
+        type: 'error',
+        ruleId: 'a11y/aria-reference',
+        message: `${attribute} references missing id${missing.length > 1 ? 's' : ''} ${missing.map(id => `'${id}'`).join(', ')}`,
+        fixSuggestion: `Point ${attribute} at the id of an element in the page, or add the id to the element it describes`
+      });
+    });
+  }
+
+  private checkNestedInteractive($: CheerioAPI, element: Element, violations: AriaViolation[]): void {
+    if (!this.isInteractive($, element) || OWNED_WIDGET_ROLES.has(this.role($, element) ?? '')) return;
+
+    const ancestor = $(element).parents().toArray().find((parent: Element) => this.isInteractive($, parent));
+    if (!ancestor) return;
+
+    violations.push({
+      element,
+      type: 'error',
+      ruleId: 'a11y/nested-interactive',
+      message: `Interactive <${element.tagName}> is nested inside interactive <${ancestor.tagName}>`,
+      fixSuggestion: 'Move it out so the two controls are siblings; assistive technology and clicks cannot reach nested controls reliably'
+    });
+  }
+
+  private isInteractive($: CheerioAPI, element: Element): boolean {
+    const $element = $(element);
+    if ($element.is('input[type="hidden"]')) return false;
+    if ($element.is('a[href], button, input, select, textarea, summary')) return true;
+
+    const role = this.role($, element);
+    return !!role && INTERACTIVE_ROLES.has(role);
+  }
+
+  private hasExplicitRole($: CheerioAPI, element: Element): boolean {
+    return this.explicitRole($, element) !== undefined;
+  }
+
+  // The first valid token of the role attribute; later ones are fallbacks
+  private explicitRole($: CheerioAPI, element: Element): string | undefined {
+    return (($(element).attr('role') ?? '').split(/\s+/) as string[]).find(token => ROLES.has(token));
+  }
+
+  private role($: CheerioAPI, element: Element): string | undefined {
+    const explicit = this.explicitRole($, element);
+    if (explicit) return explicit;
+
+    const $element = $(element);
+    const tagName = element.tagName?.toLowerCase();
+    switch (tagName) {
+      case 'a':
+        return $element.attr('href') !== undefined ? 'link' : 'generic';
+      case 'img':
+        return $element.attr('alt') === '' ? 'presentation' : 'img';
+      case 'input':
+        return INPUT_ROLES[($element.attr('type') || 'text').toLowerCase()];
+      case 'select':
+        return $element.attr('multiple') !== undefined || Number($element.attr('size')) > 1 ? 'listbox' : 'combobox';
+      case 'section':
+        return $element.attr('aria-label') || $element.attr('aria-labelledby') ? 'region' : 'generic';
+      default:
+        return tagName ? IMPLICIT_ROLES[tagName] : undefined;
+    }
+  }
+}
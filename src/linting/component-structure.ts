@@ -0,0 +1,268 @@
+import { load, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { MADEComponent } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+interface Placement {
+  // Class of the element this class must sit inside
+  container: string;
+  // The container must be the closest MADE element around it
+  direct: boolean;
+}
+
+export interface StructureViolation {
+  element: Element;
+  ruleId: string;
+  message: string;
+  fixSuggestion: string;
+}
+
+// Rules that hold regardless of what the examples show
+const EXPLICIT_PLACEMENTS: Record<string, Placement> = {
+  'made-card-header': { container: 'made-card', direct: false },
+  'made-card-body': { container: 'made-card', direct: false },
+  'made-card-footer': { container: 'made-card', direct: false },
+  'made-col': { container: 'made-row', direct: true }
+};
+
+const EXPLICIT_ORDER: Record<string, string[]> = {
+  'made-card': ['made-card-header', 'made-card-body', 'made-card-footer']
+};
+
+// A derived rule needs at least this many examples behind it: a placement
+// is only learned from that many examples using the class, a child is only
+// required once that many instances of its container all have it
+const MIN_EXAMPLES = 2;
+
+/**
+ * Structural rules of MADE components, derived from the indexed examples:
+ * where sub-element classes (made-card-header) must sit, which children a
+ * component always has and the order they come in. Sub-elements are
+ * recognized by name: made-card-header belongs to made-card.
+ */
+export class ComponentStructure {
+  private placements = new Map<string, Placement>();
+  private requiredChildren = new Map<string, string[]>();
+  // Container → [before, after] pairs of its sub-elements
+  private order = new Map<string, Array<[string, string]>>();
+
+  async initialize(components: MADEComponent[]): Promise<void> {
+    const documents = components
+      .flatMap(component => component.examples.map(example => example.html))
+      .filter(Boolean)
+      .map(html => load(html));
+
+    this.placements = this.derivePlacements(documents);
+    Object.entries(EXPLICIT_PLACEMENTS).forEach(([cls, placement]) => this.placements.set(cls, placement));
+
+    this.requiredChildren = this.deriveRequiredChildren(documents);
+    this.order = this.deriveOrder(documents);
+    Object.entries(EXPLICIT_ORDER).forEach(([container, children]) => {
+      const pairs = children.flatMap((before, index) =>
+        children.slice(index + 1).map((after): [string, string] => [before, after]));
+      this.order.set(container, this.mergePairs(this.order.get(container) ?? [], pairs));
+    });
+
+    logger.info(`Component structure initialized with ${this.placements.size} placement rules from ${documents.length} examples`);
+  }
+
+  validate($: CheerioAPI): StructureViolation[] {
+    const violations: StructureViolation[] = [];
+
+    $('[class]').each((_: number, element: Element) => {
+      const classes = this.madeClasses($, element);
+
+      classes.forEach(cls => {
+        const placement = this.placements.get(cls);
+        if (placement && !classes.includes(placement.container)) {
+          const violation = this.checkPlacement($, element, cls, placement);
+          if (violation) violations.push(violation);
+        }
+
+        const missing = (this.requiredChildren.get(cls) || [])
+          .filter(child => !classes.includes(child) && $(element).find(`.${child}`).length === 0);
+        if (missing.length > 0) {
+          violations.push({
+            element,
+            ruleId: 'made/missing-child',
+            message: `${cls} is missing ${missing.join(', ')}`,
+            fixSuggestion: `Add ${missing.map(child => `an element with class ${child}`).join(' and ')} inside ${cls}, as in the MADE examples`
+          });
+        }
+
+        violations.push(...this.checkOrder($, element, cls));
+      });
+    });
+
+    return violations;
+  }
+
+  private checkPlacement($: CheerioAPI, element: Element, cls: string, placement: Placement): StructureViolation | undefined {
+    const container = $(element).parent().closest(`.${placement.container}`);
+    if (container.length === 0) {
+      return {
+        element,
+        ruleId: 'made/orphaned-class',
+        message: `${cls} must be inside ${placement.container}`,
+        fixSuggestion: `Move it into an element with class ${placement.container}, or drop ${cls}`
+      };
+    }
+
+    if (!placement.direct) return undefined;
+
+    const closest = this.closestMadeAncestor($, element);
+    if (closest && !this.madeClasses($, closest).includes(placement.container)) {
+      return {
+        element,
+        ruleId: 'made/invalid-nesting',
+        message: `${cls} must sit directly inside ${placement.container}, not inside ${this.madeClasses($, closest).join(' ')}`,
+        fixSuggestion: `Move it out of the ${this.madeClasses($, closest)[0]} element so ${placement.container} is its closest MADE container`
+      };
+    }
+
+    return undefined;
+  }
+
+  private checkOrder($: CheerioAPI, element: Element, container: string): StructureViolation[] {
+    const pairs = this.order.get(container);
+    if (!pairs) return [];
+
+    // First position of each sub-element that belongs to this container (not a nested one)
+    const positions = new Map<string, number>();
+    $(element).find('[class]').each((index: number, child: Element) => {
+      if ($(child).parent().closest(`.${container}`)[0] !== element) return;
+      this.madeClasses($, child).forEach(cls => {
+        if (!positions.has(cls)) positions.set(cls, index);
+      });
+    });
+
+    return pairs
+      .filter(([before, after]) => positions.has(before) && positions.has(after) &&
+        (positions.get(after) ?? 0) < (positions.get(before) ?? 0))
+      .map(([before, after]) => ({
+        element,
+        ruleId: 'made/child-order',
+        message: `${before} should come before ${after} in ${container}`,
+        fixSuggestion: `Reorder the children of ${container}: ${before} before ${after}`
+      }));
+  }
+
+  // Sub-element class → the container every example puts it in
+  private derivePlacements(documents: CheerioAPI[]): Map<string, Placement> {
+    const occurrences = new Map<string, number>();
+    const examples = new Map<string, number>();
+    const insideCounts = new Map<string, Map<string, number>>();
+    const directCounts = new Map<string, Map<string, number>>();
+    const increment = (counts: Map<string, Map<string, number>>, cls: string, container: string) => {
+      const byContainer = counts.get(cls) ?? new Map<string, number>();
+      byContainer.set(container, (byContainer.get(container) ?? 0) + 1);
+      counts.set(cls, byContainer);
+    };
+
+    documents.forEach($ => {
+      const used = new Set<string>();
+      $('[class]').each((_: number, element: Element) => {
+        const classes = this.madeClasses($, element);
+        const ancestors = new Set<string>($(element).parents().toArray().flatMap((parent: Element) => this.madeClasses($, parent)));
+        const closest = this.closestMadeAncestor($, element);
+        const direct = new Set(closest ? this.madeClasses($, closest) : []);
+
+        classes.forEach(cls => {
+          used.add(cls);
+          occurrences.set(cls, (occurrences.get(cls) ?? 0) + 1);
+          ancestors.forEach(container => increment(insideCounts, cls, container));
+          direct.forEach(container => increment(directCounts, cls, container));
+        });
+      });
+      used.forEach(cls => examples.set(cls, (examples.get(cls) ?? 0) + 1));
+    });
+
+    const placements = new Map<string, Placement>();
+    occurrences.forEach((count, cls) => {
+      if ((examples.get(cls) ?? 0) < MIN_EXAMPLES) return;
+
+      // The longest name prefix wins: made-card-header-title belongs to made-card-header
+      const container = [...(insideCounts.get(cls) ?? new Map<string, number>()).entries()]
+        .filter(([candidate, inside]) => inside === count && cls.startsWith(`${candidate}-`))
+        .map(([candidate]) => candidate)
+        .sort((a, b) => b.length - a.length)[0];
+
+      if (container) {
+        placements.set(cls, { container, direct: directCounts.get(cls)?.get(container) === count });
+      }
+    });
+
+    return placements;
+  }
+
+  // Container → sub-elements present in every example of it
+  private deriveRequiredChildren(documents: CheerioAPI[]): Map<string, string[]> {
+    const subElements = new Map<string, string[]>();
+    this.placements.forEach(({ container }, cls) => {
+      subElements.set(container, [...(subElements.get(container) ?? []), cls]);
+    });
+
+    const required = new Map<string, string[]>();
+    subElements.forEach((children, container) => {
+      const elements = documents.flatMap($ => $<Element, string>(`.${container}`).toArray().map((element: Element) => ({ $, element })));
+      if (elements.length < MIN_EXAMPLES) return;
+
+      const always = children.filter(child =>
+        elements.every(({ $, element }) => $(element).find(`.${child}`).length > 0));
+      if (always.length > 0) required.set(container, always.sort());
+    });
+
+    return required;
+  }
+
+  // Container → pairs of sub-elements that always appear in the same order
+  private deriveOrder(documents: CheerioAPI[]): Map<string, Array<[string, string]>> {
+    const seen = new Map<string, Map<string, number>>();
+    const record = (container: string, pair: string) => {
+      const pairs = seen.get(container) ?? new Map<string, number>();
+      pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+      seen.set(container, pairs);
+    };
+
+    documents.forEach($ => {
+      new Set([...this.placements.values()].map(placement => placement.container)).forEach(container => {
+        $<Element, string>(`.${container}`).each((_: number, element: Element) => {
+          const children: string[] = [];
+          $(element).find('[class]').each((__: number, child: Element) => {
+            if ($(child).parent().closest(`.${container}`)[0] !== element) return;
+            this.madeClasses($, child)
+              .filter(cls => this.placements.get(cls)?.container === container && !children.includes(cls))
+              .forEach(cls => children.push(cls));
+          });
+
+          children.forEach((before, index) =>
+            children.slice(index + 1).forEach(after => record(container, `${before} ${after}`)));
+        });
+      });
+    });
+
+    const order = new Map<string, Array<[string, string]>>();
+    seen.forEach((pairs, container) => {
+      const consistent = [...pairs.keys()]
+        .filter(pair => !pairs.has(pair.split(' ').reverse().join(' ')))
+        .map(pair => pair.split(' ') as [string, string]);
+      if (consistent.length > 0) order.set(container, consistent);
+    });
+
+    return order;
+  }
+
+  // Explicit order pairs replace derived ones for the same two classes
+  private mergePairs(derived: Array<[string, string]>, explicit: Array<[string, string]>): Array<[string, string]> {
+    const covered = new Set(explicit.flatMap(([a, b]) => [`${a} ${b}`, `${b} ${a}`]));
+    return [...derived.filter(([a, b]) => !covered.has(`${a} ${b}`)), ...explicit];
+  }
+
+  private closestMadeAncestor($: CheerioAPI, element: Element): Element | undefined {
+    return $(element).parents().toArray().find((parent: Element) => this.madeClasses($, parent).length > 0);
+  }
+
+  private madeClasses($: CheerioAPI, element: Element): string[] {
+    return ($(element).attr('class') || '').split(/\s+/).filter((cls: string) => cls.startsWith('made-'));
+  }
+}
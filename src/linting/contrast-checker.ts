@@ -0,0 +1,284 @@
+import type { CheerioAPI } from 'cheerio';
+import { Element, isTag, isText } from 'domhandler';
+import { MADEToken, MADEClass, LintIssue, ColorValue } from '../types.js';
+import { TokenValueParser } from '../parsers/token-value-parser.js';
+import { NearestTokenFinder } from '../search/nearest-token-finder.js';
+import { logger } from '../utils/logger.js';
+
+export interface ContrastViolation {
+  element: Element;
+  type: LintIssue['type'];
+  ruleId: string;
+  message: string;
+  fixSuggestion: string;
+}
+
+interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// WCAG 2.1 AA minimum ratios
+const MIN_RATIO = 4.5;
+const MIN_RATIO_LARGE = 3;
+
+// Large text is 18pt (24px), or 14pt (18.66px) when bold
+const LARGE_PX = 24;
+const LARGE_BOLD_PX = 18.66;
+const BOLD_WEIGHT = 700;
+
+const ROOT_FONT_SIZE = 16;
+const PAGE_BACKGROUND: RGB = { r: 255, g: 255, b: 255 };
+const DEFAULT_TEXT: RGB = { r: 0, g: 0, b: 0 };
+
+// User agent font sizes (em of the parent) and weights
+const DEFAULT_FONT_SIZES: Record<string, number> = { h1: 2, h2: 1.5, h3: 1.17, h4: 1, h5: 0.83, h6: 0.67, small: 0.83 };
+const BOLD_ELEMENTS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'b', 'strong', 'th']);
+
+// Elements whose text is never rendered
+const SKIPPED_ELEMENTS = 'script, style, template, noscript, title, head';
+
+// Inline declarations that make a color pair the author's rather than made.css's
+const COLOR_PROPERTY = /^(color|background|background-color|--[\w-]+)$/;
+
+const VAR = /var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\))?[^()]*))?\)/;
+const MAX_VAR_DEPTH = 10;
+
+/**
+ * Checks the contrast of text against its background (WCAG AA: 4.5:1, or
+ * 3:1 for large text). Colors, font sizes and weights are resolved per
+ * element from MADE class declarations (in made.css order), inline styles,
+ * custom properties up the tree and token values; translucent backgrounds
+ * are composited over their ancestors. Text over images or gradients is
+ * skipped. Failing text gets the nearest MADE color token that passes.
+ * Pairs that no style attribute contributes to are warnings: only made.css
+ * can change them, so generated MADE markup is not reported as broken.
+ */
+export class ContrastChecker {
+  private tokens = new Map<string, MADEToken>();
+  private classes = new Map<string, MADEClass>();
+  // Class → position of its rule in made.css; later rules win the cascade
+  private classRank = new Map<string, number>();
+  private colorTokens: MADEToken[] = [];
+  private valueParser = new TokenValueParser();
+  private tokenFinder = new NearestTokenFinder();
+
+  async initialize(tokens: MADEToken[], classes: MADEClass[] = []): Promise<void> {
+    this.tokens = new Map(tokens.map(token => [token.name, token]));
+    this.classes = new Map(classes.map(cls => [cls.name, cls]));
+    this.classRank = new Map(classes.map(cls => [cls.name, cls.order ?? 0]));
+    this.colorTokens = tokens.filter(token => token.category === 'color');
+    await this.tokenFinder.initialize(this.colorTokens);
+
+    logger.info(`Contrast checker initialized with ${this.colorTokens.length} color tokens`);
+  }
+
+  check($: CheerioAPI): ContrastViolation[] {
+    const violations: ContrastViolation[] = [];
+
+    $('body *').each((_: number, element: Element) => {
+      const $element = $(element);
+      if ($element.is(SKIPPED_ELEMENTS) || $element.closest(SKIPPED_ELEMENTS).length > 0) return;
+
+      const hasText = $element.contents().toArray().some((node) => isText(node) && node.data.trim());
+      if (!hasText) return;
+
+      const background = this.background($, element);
+      if (!background) return;
+
+      const foreground = this.composite(this.foreground($, element), background);
+      const ratio = this.contrast(foreground, background);
+      const large = this.isLargeText($, element);
+      const required = large ? MIN_RATIO_LARGE : MIN_RATIO;
+      if (ratio >= required) return;
+
+      // A pair made.css alone produces is the design system's to fix, not the author's
+      const authored = this.authored($, element);
+      violations.push({
+        element,
+        type: authored ? 'error' : 'warning',
+        ruleId: 'a11y/color-contrast',
+        message: `Text contrast ${this.formatRatio(ratio)} is below ${required}:1${large ? ' for large text' : ''} (${this.hex(foreground)} on ${this.hex(background)})${authored ? '' : '; both colors come from MADE classes'}`,
+        fixSuggestion: this.suggestToken(foreground, background, required)
+      });
+    });
+
+    return violations;
+  }
+
+  // The MADE color token closest to the current text color that passes on this background
+  private suggestToken(foreground: RGB, background: RGB, required: number): string {
+    const parsed = this.valueParser.parseColor(this.hex(foreground));
+    const match = parsed && this.tokenFinder.findParsed(parsed, 'color', this.colorTokens.length)
+      .map(candidate => {
+        const color = this.valueParser.parseColor(candidate.resolvedValue);
+        return { candidate, ratio: color ? this.contrast(this.composite(color, background), background) : 0 };
+      })
+      .find(({ ratio }) => ratio >= required);
+
+    if (!match) {
+      return `No MADE color token reaches ${required}:1 on ${this.hex(background)}; use a darker or lighter background token`;
+    }
+    return `Use var(${match.candidate.name}) (${match.candidate.resolvedValue}, ${this.formatRatio(match.ratio)}) for the text color`;
+  }
+
+  // Whether a style attribute on the text or around it sets a color or a custom property
+  private authored($: CheerioAPI, element: Element): boolean {
+    return [element, ...$(element).parents().toArray()]
+      .some(current => [...this.inlineDeclarations($, current).keys()].some(property => COLOR_PROPERTY.test(property)));
+  }
+
+  private foreground($: CheerioAPI, element: Element): ColorValue | RGB {
+    const value = this.inherited($, element, 'color');
+    return (value && this.valueParser.parseColor(value)) || DEFAULT_TEXT;
+  }
+
+  // Backgrounds from the element up, composited over the page; undefined over images and gradients
+  private background($: CheerioAPI, element: Element): RGB | undefined {
+    const layers: ColorValue[] = [];
+
+    for (const current of [element, ...$(element).parents().toArray()]) {
+      const declarations = this.declarations($, current);
+      const raw = declarations.get('background-color') ?? declarations.get('background');
+      if (raw === undefined) continue;
+
+      const value = this.resolve($, current, raw);
+      if (/url\(|gradient\(/i.test(value)) return undefined;
+
+      const color = this.valueParser.parseColor(value) ?? this.firstColor(value);
+      if (!color || color.alpha === 0) continue;
+
+      layers.push(color);
+      if (color.alpha === 1) break;
+    }
+
+    return layers.reduceRight((below, layer) => this.composite(layer, below), PAGE_BACKGROUND);
+  }
+
+  // A color inside a shorthand such as `background: #fff no-repeat`
+  private firstColor(value: string): ColorValue | undefined {
+    const parts: string[] = value.match(/[\w-]+\([^)]*\)|\S+/g) || [];
+    return parts.map(part => this.valueParser.parseColor(part)).find(Boolean);
+  }
+
+  private isLargeText($: CheerioAPI, element: Element): boolean {
+    const size = this.fontSize($, element);
+    return size >= LARGE_PX || (size >= LARGE_BOLD_PX && this.fontWeight($, element) >= BOLD_WEIGHT);
+  }
+
+  private fontSize($: CheerioAPI, element: Element): number {
+    const parent = $(element).parent()[0];
+    const inherited = parent && isTag(parent) ? this.fontSize($, parent) : ROOT_FONT_SIZE;
+
+    const raw = this.declarations($, element).get('font-size');
+    const value = raw === undefined ? undefined : this.resolve($, element, raw);
+    const dimension = value === undefined ? undefined : this.valueParser.parseDimension(value);
+
+    if (dimension?.unit === 'em') return dimension.value * inherited;
+    if (dimension?.unit === '%') return dimension.value / 100 * inherited;
+    if (dimension?.px !== undefined) return dimension.px;
+
+    const tagName = element.tagName?.toLowerCase();
+    return DEFAULT_FONT_SIZES[tagName] !== undefined ? DEFAULT_FONT_SIZES[tagName] * inherited : inherited;
+  }
+
+  private fontWeight($: CheerioAPI, element: Element): number {
+    for (const current of [element, ...$(element).parents().toArray()]) {
+      const raw = this.declarations($, current).get('font-weight');
+      if (raw !== undefined) {
+        const value = this.resolve($, current, raw).toLowerCase();
+        if (value === 'bold' || value === 'bolder') return BOLD_WEIGHT;
+        if (Number(value)) return Number(value);
+      }
+      if (BOLD_ELEMENTS.has(current.tagName?.toLowerCase())) return BOLD_WEIGHT;
+    }
+    return 400;
+  }
+
+  // Nearest declaration of an inherited property, resolved where it was declared
+  private inherited($: CheerioAPI, element: Element, property: string, depth = 0): string | undefined {
+    for (const current of [element, ...$(element).parents().toArray()]) {
+      const raw = this.declarations($, current).get(property);
+      if (raw !== undefined && !/^(inherit|unset)$/i.test(raw.trim())) {
+        return this.resolve($, current, raw, depth);
+      }
+    }
+    return undefined;
+  }
+
+  // Declarations that apply to an element: its MADE classes in made.css order, then the style attribute
+  private declarations($: CheerioAPI, element: Element): Map<string, string> {
+    const declarations = new Map<string, string>();
+    const classNames = this.classOrder(($(element).attr('class') || '').split(/\s+/).filter(Boolean));
+
+    classNames.forEach(name => {
+      Object.entries(this.classes.get(name)?.declarations || {}).forEach(([property, value]) => declarations.set(property, value));
+    });
+
+    this.inlineDeclarations($, element).forEach((value, property) => declarations.set(property, value));
+
+    return declarations;
+  }
+
+  private inlineDeclarations($: CheerioAPI, element: Element): Map<string, string> {
+    const declarations = new Map<string, string>();
+    ($(element).attr('style') || '').split(';').forEach((declaration: string) => {
+      const match = declaration.match(/^\s*([\w-]+)\s*:\s*(.+?)\s*$/);
+      if (match) declarations.set(match[1].toLowerCase(), match[2].replace(/\s*!important$/i, ''));
+    });
+    return declarations;
+  }
+
+  private classOrder(classNames: string[]): string[] {
+    return classNames
+      .filter(name => this.classes.has(name))
+      .sort((a, b) => (this.classRank.get(a) ?? 0) - (this.classRank.get(b) ?? 0));
+  }
+
+  // Substitutes var() with custom properties set on the element or its ancestors, then token values
+  private resolve($: CheerioAPI, element: Element, value: string, depth = 0): string {
+    const match = value.match(VAR);
+    if (!match || depth >= MAX_VAR_DEPTH) return value;
+
+    const [, name, fallback] = match;
+    const custom = this.inherited($, element, name, depth + 1);
+    const token = this.tokens.get(name);
+    const replacement = custom ?? token?.resolvedValue ?? token?.value ?? fallback ?? '';
+
+    return this.resolve($, element, value.replace(match[0], replacement), depth + 1);
+  }
+
+  private composite(color: ColorValue | RGB, below: RGB): RGB {
+    const alpha = 'alpha' in color ? color.alpha : 1;
+    const rgb = 'rgb' in color ? color.rgb : color;
+    return {
+      r: rgb.r * alpha + below.r * (1 - alpha),
+      g: rgb.g * alpha + below.g * (1 - alpha),
+      b: rgb.b * alpha + below.b * (1 - alpha)
+    };
+  }
+
+  private contrast(a: RGB, b: RGB): number {
+    const [lighter, darker] = [this.luminance(a), this.luminance(b)].sort((x, y) => y - x);
+    return (lighter + 0.05) / (darker + 0.05);
+  }
+
+  // WCAG relative luminance
+  private luminance({ r, g, b }: RGB): number {
+    const [rl, gl, bl] = [r, g, b].map(channel => {
+      const c = channel / 255;
+      return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * rl + 0.7152 * gl + 0.0722 * bl;
+  }
+
+  // Rounded down so a failing ratio never reads as the threshold
+  private formatRatio(ratio: number): string {
+    return `${Math.floor(ratio * 100) / 100}:1`;
+  }
+
+  private hex({ r, g, b }: RGB): string {
+    return `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+  }
+}
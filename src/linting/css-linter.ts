@@ -0,0 +1,308 @@
+import { parse, CssTypes } from '@adobe/css-tools';
+import type { CssCommonPositionAST, CssDeclarationAST, CssRuleAST } from '@adobe/css-tools';
+import { MADEToken, LintIssue, LintEdit, LintRuleSummary, LintRulesConfig, NearestTokenMatch } from '../types.js';
+import { CSSParser } from '../parsers/css-parser.js';
+import { TokenValueParser } from '../parsers/token-value-parser.js';
+import { NearestTokenFinder } from '../search/nearest-token-finder.js';
+import { SourceLocator } from './source-locator.js';
+import { LintRuleEngine } from './lint-rule-engine.js';
+import { logger } from '../utils/logger.js';
+
+// The rules checked by CssLinter.lint()
+export const CSS_LINT_RULES: LintRuleSummary[] = [
+  { id: 'made/unknown-token', category: 'made', description: '--made-* variables must be tokens that exist in the index' },
+  { id: 'made/deprecated-token', category: 'made', description: 'Deprecated tokens should be replaced' },
+  { id: 'made/hard-coded-value', category: 'made', description: 'Hard-coded colors, spacing, font sizes, radii and shadows should use the matching MADE token' },
+  { id: 'made/class-override', category: 'made', description: 'MADE component classes (.made-*) should be customized through their tokens, not restyled' },
+  { id: 'made/important-override', category: 'made', description: '!important must not be used to override made-* selectors' }
+];
+
+// CSS properties whose literal values should be tokens, checked in order
+const TOKEN_PROPERTIES: Array<{ pattern: RegExp; category: MADEToken['category'] }> = [
+  { pattern: /^box-shadow$/, category: 'shadow' },
+  { pattern: /^font-size$/, category: 'typography' },
+  { pattern: /radius$/, category: 'radius' },
+  { pattern: /^(margin|padding)(-|$)|^(row-|column-)?gap$/, category: 'spacing' },
+  { pattern: /color$|^background$|^(border|outline)(-(top|right|bottom|left))?$|^fill$|^stroke$/, category: 'color' }
+];
+
+// How far a literal may be from a token to still be suggested
+const NEAR_DELTA_E = 3;
+const NEAR_PX = 2;
+
+const MADE_CLASS = /\.made-[\w-]+/g;
+
+/**
+ * Lints stylesheets against the MADE tokens: unknown and deprecated
+ * `--made-*` variables, hard-coded values a token provides, restyled MADE
+ * component classes and `!important` overrides of made-* selectors. Flat
+ * SCSS (variables, `//` comments, `@use`) is accepted; nested rules are not.
+ */
+export class CssLinter {
+  private tokens = new Map<string, MADEToken>();
+  private cssParser = new CSSParser();
+  private valueParser = new TokenValueParser();
+  private tokenFinder = new NearestTokenFinder();
+  private ruleEngine = new LintRuleEngine(CSS_LINT_RULES);
+  private css = '';
+  private locator = new SourceLocator('');
+  private initialized = false;
+
+  async initialize(tokens: MADEToken[]): Promise<void> {
+    this.tokens = new Map(tokens.map(token => [token.name, token]));
+    await this.tokenFinder.initialize(tokens);
+
+    this.initialized = true;
+    logger.info(`CSS linter initialized with ${this.tokens.size} tokens`);
+  }
+
+  lint(css: string, syntax: 'css' | 'scss' = 'css', rules: LintRulesConfig = {}): LintIssue[] {
+    if (!this.initialized) {
+      throw new Error('CSS linter not initialized');
+    }
+
+    const source = syntax === 'scss' ? this.stripSCSS(css) : css;
+    const ast = parse(source, { silent: true });
+    this.css = source;
+    this.locator = new SourceLocator(source);
+    const issues: LintIssue[] = (ast.stylesheet.parsingErrors || []).map(error => ({
+      type: 'error',
+      message: `Failed to parse CSS: ${error.reason}`,
+      fixSuggestion: syntax === 'scss'
+        ? 'Nested SCSS rules are not supported; lint the compiled CSS or flatten the selectors'
+        : 'Check CSS syntax',
+      line: error.line,
+      column: error.column
+    }));
+
+    this.cssParser.collectThemeRules(ast).forEach(({ rule }: { rule: CssRuleAST }) => {
+      const madeClasses = [...new Set(rule.selectors.join(' ').match(MADE_CLASS) || [])] as string[];
+      const declarations = this.declarations(rule);
+
+      // Setting --made-* custom properties on a component is the supported way to theme it
+      const restyled = declarations.filter(decl => !decl.property.startsWith('--'));
+      if (madeClasses.length > 0 && restyled.length > 0) {
+        issues.push({
+          type: 'warning',
+          ruleId: 'made/class-override',
+          message: `Rule overrides MADE component class ${madeClasses.join(', ')}`,
+          fixSuggestion: 'Customize MADE components through their --made-* tokens or a modifier class of your own instead of restyling made-* classes',
+          ...this.position(rule)
+        });
+      }
+
+      declarations.forEach(decl => {
+        const position = this.position(decl);
+        const value: string = decl.value ?? '';
+
+        if (madeClasses.length > 0 && /!important\s*$/i.test(value)) {
+          issues.push({
+            type: 'error',
+            ruleId: 'made/important-override',
+            message: `!important on ${decl.property} fights the MADE styles of ${madeClasses.join(', ')}`,
+            fixSuggestion: 'Remove !important; use a more specific selector or the component tokens',
+            ...position
+          });
+        }
+
+        this.checkVariables(value).forEach(issue => issues.push({ ...issue, ...position }));
+        this.checkValue(decl.property, value, this.valueOffset(decl))
+          .forEach(issue => issues.push({ ...issue, ...position }));
+      });
+    });
+
+    return this.ruleEngine.apply(issues, rules);
+  }
+
+  /**
+   * Only the hard-coded value checks; used for style attributes and
+   * `<style>` blocks in markup. Positions and fixes are relative to `css`.
+   */
+  lintValues(css: string): LintIssue[] {
+    let ast;
+    try {
+      ast = parse(css, { silent: true });
+    } catch {
+      return [];
+    }
+    this.css = css;
+    this.locator = new SourceLocator(css);
+
+    return this.cssParser.collectThemeRules(ast).flatMap(({ rule }: { rule: CssRuleAST }) =>
+      this.declarations(rule)
+        .filter(decl => decl.value)
+        .flatMap(decl => this.checkValue(decl.property, decl.value, this.valueOffset(decl))
+          .map(issue => ({ ...issue, ...this.position(decl) }))));
+  }
+
+  private checkVariables(value: string): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const references = [...value.matchAll(/var\(\s*(--made-[\w-]+)/g)].map(match => match[1]);
+
+    new Set(references).forEach(name => {
+      const token = this.tokens.get(name);
+
+      if (!token) {
+        issues.push({
+          type: 'error',
+          ruleId: 'made/unknown-token',
+          message: `Unknown MADE token: ${name}`,
+          fixSuggestion: 'Check available MADE design tokens or update to a valid token'
+        });
+      } else if (token.deprecated) {
+        issues.push({
+          type: 'warning',
+          ruleId: 'made/deprecated-token',
+          message: `Deprecated MADE token: ${name}`,
+          fixSuggestion: typeof token.deprecated === 'string'
+            ? token.deprecated
+            : 'Replace it with the token that supersedes it in the current MADE version'
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Literal colors, spacing, font sizes, radii and shadows that match (or
+   * nearly match) a token. Exact matches get a fix when `valueOffset` (the
+   * offset of the value in the linted CSS) is known.
+   */
+  private checkValue(property: string, rawValue: string, valueOffset?: number): LintIssue[] {
+    const value = rawValue.replace(/\s*!important\s*$/i, '');
+    const name = property.toLowerCase();
+    const category = TOKEN_PROPERTIES.find(entry => entry.pattern.test(name))?.category;
+    if (!category || /^(inherit|initial|unset|none|auto)$/.test(value.trim())) return [];
+
+    // Shadows match as a whole; otherwise fall back to the colors inside them
+    if (category === 'shadow') {
+      const shadow = this.findShadowToken(value);
+      if (shadow) {
+        const issue = this.hardCodedIssue('shadow', value.trim(), name, shadow, true);
+        return [this.withTokenFix(issue, valueOffset, value.trim(), shadow.name)];
+      }
+    }
+
+    const partCategory = category === 'shadow' ? 'color' : category;
+    return this.splitValue(value).flatMap(({ text: part, index }) => {
+      const parsed = this.valueParser.parse(part, { category: partCategory });
+      if (!parsed || (partCategory === 'color' ? parsed.kind !== 'color' : parsed.kind !== 'dimension')) return [];
+      if (parsed.kind === 'dimension' && parsed.value === 0) return [];
+
+      const [match] = this.tokenFinder.findParsed(parsed, partCategory, 1);
+      if (!match || match.distance > (match.metric === 'deltaE2000' ? NEAR_DELTA_E : NEAR_PX)) return [];
+
+      const issue = this.hardCodedIssue(partCategory, part, name, match, match.distance === 0);
+      return match.distance === 0 && valueOffset !== undefined
+        ? [this.withTokenFix(issue, valueOffset + index, part, match.name)]
+        : [issue];
+    });
+  }
+
+  private hardCodedIssue(
+    category: MADEToken['category'],
+    value: string,
+    property: string,
+    token: Pick<NearestTokenMatch, 'name' | 'explanation'>,
+    exact: boolean
+  ): LintIssue {
+    const kind = category === 'typography' ? 'font size' : category;
+
+    return exact
+      ? {
+        type: 'warning',
+        ruleId: 'made/hard-coded-value',
+        message: `Hard-coded ${kind} ${value} in ${property} matches ${token.name}`,
+        fixSuggestion: `Replace ${value} with var(${token.name})`
+      }
+      : {
+        type: 'info',
+        ruleId: 'made/hard-coded-value',
+        message: `Hard-coded ${kind} ${value} in ${property} is close to ${token.name} (${token.explanation})`,
+        fixSuggestion: `Use var(${token.name}) instead of ${value}`
+      };
+  }
+
+  private findShadowToken(value: string): Pick<NearestTokenMatch, 'name' | 'explanation'> | undefined {
+    const normalize = (shadow: string) => shadow.toLowerCase().replace(/\s*,\s*/g, ',').replace(/\s+/g, ' ').trim();
+    const wanted = normalize(value);
+
+    const token = [...this.tokens.values()].find(candidate =>
+      candidate.category === 'shadow' && normalize(candidate.resolvedValue ?? candidate.value) === wanted);
+    return token ? { name: token.name, explanation: 'exact match' } : undefined;
+  }
+
+  // Space- and comma-separated parts of a value and where they start, keeping functions like rgb(...) whole
+  private splitValue(value: string): Array<{ text: string; index: number }> {
+    const parts: Array<{ text: string; index: number }> = [];
+    let depth = 0;
+    let current = '';
+
+    for (let index = 0; index < value.length; index++) {
+      const char = value[index];
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+
+      if (depth === 0 && /[\s,/]/.test(char)) {
+        if (current) parts.push({ text: current, index: index - current.length });
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    if (current) parts.push({ text: current, index: value.length - current.length });
+
+    return parts.filter(part => !part.text.includes('var('));
+  }
+
+  // Attaches a fix replacing the literal at `offset` in the linted CSS with the token
+  private withTokenFix(issue: LintIssue, offset: number | undefined, literal: string, tokenName: string): LintIssue {
+    const end = (offset ?? 0) + literal.length;
+    if (offset === undefined || this.css.slice(offset, end) !== literal) return issue;
+
+    const fix: LintEdit = {
+      range: { startOffset: offset, endOffset: end, ...this.locator.range(offset, end) },
+      replacement: `var(${tokenName})`,
+      description: `Replace ${literal} with var(${tokenName})`
+    };
+    return { ...issue, fix };
+  }
+
+  // The rule's property declarations, without comments
+  private declarations(rule: CssRuleAST): CssDeclarationAST[] {
+    return (rule.declarations || [])
+      .filter((node): node is CssDeclarationAST => node.type === CssTypes.declaration && Boolean(node.property));
+  }
+
+  // Offset of a declaration's value (after `property:`) in the linted CSS
+  private valueOffset(decl: CssDeclarationAST): number | undefined {
+    const start = decl.position?.start;
+    if (!start) return undefined;
+
+    const offset = this.locator.offsetAt(start.line, start.column);
+    const prefix = this.css.slice(offset).match(/^[^:;{}]*:\s*/)?.[0];
+    return prefix === undefined ? undefined : offset + prefix.length;
+  }
+
+  /**
+   * Blanks SCSS-only syntax (line comments, `$variable:` declarations,
+   * `@use` / `@forward` / `@import`) with spaces so positions still match.
+   */
+  private stripSCSS(scss: string): string {
+    const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+    return scss
+      .replace(/(^|[^:])(\/\/[^\n]*)/g, (_, before: string, comment: string) => before + blank(comment))
+      .replace(/^\s*(\$[\w-]+\s*:[^;]*;|@(use|forward|import)\b[^;]*;)/gm, blank);
+  }
+
+  private position(node: CssCommonPositionAST): Pick<LintIssue, 'line' | 'column' | 'endLine' | 'endColumn'> {
+    const { start, end } = node.position || {};
+    if (!start) return {};
+
+    return end
+      ? { line: start.line, column: start.column, endLine: end.line, endColumn: end.column }
+      : { line: start.line, column: start.column };
+  }
+}
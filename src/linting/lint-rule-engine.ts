@@ -0,0 +1,67 @@
+import { LintIssue, LintRuleSummary, LintRuleSeverity, LintRulesConfig } from '../types.js';
+import { SourceLocator } from './source-locator.js';
+
+const SEVERITIES: LintRuleSeverity[] = ['error', 'warning', 'info', 'off'];
+const DISABLE_NEXT_LINE = /<!--\s*made-lint-disable-next-line\b([\s\S]*?)-->/g;
+
+/**
+ * Applies a rule configuration to lint issues: a rule can be turned off or
+ * given another severity, and `<!-- made-lint-disable-next-line [rules] -->`
+ * comments silence rules (all of them when none are listed) on the line
+ * after the comment.
+ */
+export class LintRuleEngine {
+  private ruleIds: Set<string>;
+
+  constructor(rules: LintRuleSummary[]) {
+    this.ruleIds = new Set(rules.map(rule => rule.id));
+  }
+
+  validate(config: LintRulesConfig): void {
+    const unknown = Object.keys(config).filter(id => !this.ruleIds.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown lint rule${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}. Available rules: ${[...this.ruleIds].join(', ')}`);
+    }
+
+    const invalid = Object.entries(config).find(([, severity]) => !SEVERITIES.includes(severity));
+    if (invalid) {
+      throw new Error(`Invalid severity '${invalid[1]}' for lint rule ${invalid[0]}. Use one of: ${SEVERITIES.join(', ')}`);
+    }
+  }
+
+  apply(issues: LintIssue[], config: LintRulesConfig = {}, html?: string): LintIssue[] {
+    const disabled = html ? this.disabledLines(html) : new Map<number, Set<string>>();
+
+    return issues.flatMap(issue => {
+      if (!issue.ruleId) return [issue];
+
+      const severity = config[issue.ruleId];
+      if (severity === 'off') return [];
+
+      const lineRules = issue.line === undefined ? undefined : disabled.get(issue.line);
+      if (lineRules && (lineRules.size === 0 || lineRules.has(issue.ruleId))) return [];
+
+      return [severity ? { ...issue, type: severity } : issue];
+    });
+  }
+
+  // Line → rules disabled on it by a comment ending on the line before; an empty set disables every rule
+  private disabledLines(html: string): Map<number, Set<string>> {
+    const locator = new SourceLocator(html);
+    const lines = new Map<number, Set<string>>();
+
+    for (const match of html.matchAll(DISABLE_NEXT_LINE)) {
+      const line = locator.positionAt((match.index ?? 0) + match[0].length).line + 1;
+      const rules = match[1].split(/[\s,]+/).filter(Boolean);
+      const existing = lines.get(line);
+
+      if (existing && (existing.size === 0 || rules.length === 0)) {
+        lines.set(line, new Set());
+      } else {
+        lines.set(line, new Set([...(existing ?? []), ...rules]));
+      }
+    }
+
+    return lines;
+  }
+}
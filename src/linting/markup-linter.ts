@@ -1,66 +1,130 @@
 import { load } from 'cheerio';
-import { MADEToken, LintIssue } from '../types.js';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { MADEToken, MADEClass, MADEComponent, LintIssue, LintEdit, LintRuleSummary, LintRulesConfig } from '../types.js';
+import { CssLinter } from './css-linter.js';
+import { LintRuleEngine } from './lint-rule-engine.js';
+import { ComponentStructure } from './component-structure.js';
+import { VariantConflicts } from './variant-conflicts.js';
+import { AriaChecker } from './aria-checker.js';
+import { ContrastChecker } from './contrast-checker.js';
+import { SourceLocator, SourceRange } from './source-locator.js';
 import { logger } from '../utils/logger.js';
 
+interface SourceSpan {
+  startOffset: number;
+  endOffset: number;
+}
+
+// parse5's location of an element; domhandler's type leaves out the attribute ranges
+interface ElementLocation extends SourceSpan {
+  startTag?: SourceSpan;
+  attrs?: Record<string, SourceSpan>;
+}
+
+// The rules checked by MarkupLinter.lint(), shared with prompts; ids are what rule configs refer to
+export const MARKUP_LINT_RULES: LintRuleSummary[] = [
+  { id: 'structure/semantic-elements', category: 'structure', description: 'Use semantic HTML elements (main, article, section, header, footer, nav, aside)' },
+  { id: 'made/component-classes', category: 'made', description: 'Buttons, form controls and navigation should carry MADE classes (made-btn, made-form-control, made-nav)' },
+  { id: 'made/unknown-class', category: 'made', description: 'made-* classes must exist in the current MADE version' },
+  { id: 'made/unknown-token', category: 'made', description: 'Inline --made-* variables must be tokens that exist in the index' },
+  { id: 'made/non-made-variable', category: 'made', description: 'Inline CSS variables should be MADE tokens (--made-*)' },
+  { id: 'made/hard-coded-value', category: 'made', description: 'Hard-coded colors, spacing, font sizes, radii and shadows in style attributes and <style> blocks should use the matching MADE token' },
+  { id: 'made/card-classes', category: 'made', description: 'Card-like containers (.card, .panel, .box) should use made-card classes' },
+  { id: 'made/orphaned-class', category: 'made', description: 'Sub-element classes (made-card-header, made-col) must sit inside their component (made-card, made-row)' },
+  { id: 'made/invalid-nesting', category: 'made', description: 'Sub-elements that belong directly inside their component must not be nested in another MADE element' },
+  { id: 'made/missing-child', category: 'made', description: 'Components need the children every MADE example of them has' },
+  { id: 'made/child-order', category: 'made', description: 'Component children must keep the order of the MADE examples (header, body, footer)' },
+  { id: 'made/conflicting-variants', category: 'made', description: 'An element must not carry two values of the same variant (made-btn-primary with made-btn-secondary, made-btn-sm with made-btn-lg)' },
+  { id: 'made/legacy-class', category: 'made', description: 'Bootstrap class names (btn, card, form-control, ...) should be renamed to their MADE equivalents' },
+  { id: 'a11y/button-name', category: 'accessibility', description: 'Buttons need text content or aria-label' },
+  { id: 'a11y/button-type', category: 'accessibility', description: 'Buttons should declare type="button" or type="submit"' },
+  { id: 'a11y/form-label', category: 'accessibility', description: 'Form controls need a <label for> or aria-label/aria-labelledby' },
+  { id: 'a11y/img-alt', category: 'accessibility', description: 'Images need an alt attribute (alt="" for decorative images)' },
+  { id: 'a11y/img-src', category: 'accessibility', description: 'Images need a src attribute' },
+  { id: 'a11y/link-href', category: 'accessibility', description: 'Links need an href; use a button for actions' },
+  { id: 'a11y/link-name', category: 'accessibility', description: 'Links need text content or aria-label' },
+  { id: 'a11y/link-text', category: 'accessibility', description: 'Link text must be descriptive (not "click here" or "read more")' },
+  { id: 'a11y/dialog-role', category: 'accessibility', description: 'Modals and dialogs need role="dialog" and aria-modal="true"' },
+  { id: 'a11y/heading-order', category: 'accessibility', description: 'Heading levels must not skip (h1 → h2 → h3)' },
+  { id: 'a11y/focus-outline', category: 'accessibility', description: 'Interactive elements must not remove the focus outline without an alternative' },
+  { id: 'a11y/aria-role', category: 'accessibility', description: 'role values must be concrete WAI-ARIA roles' },
+  { id: 'a11y/aria-required-children', category: 'accessibility', description: 'Roles like list, tablist and menu must own their required child roles' },
+  { id: 'a11y/aria-required-parent', category: 'accessibility', description: 'Roles like listitem, tab and option must sit inside their required context role' },
+  { id: 'a11y/aria-required-attr', category: 'accessibility', description: 'Roles must carry their required states (aria-checked on checkbox, aria-level on heading, ...)' },
+  { id: 'a11y/aria-prohibited-attr', category: 'accessibility', description: 'aria-label and aria-labelledby are not allowed on roles that cannot be named (generic div/span, paragraph, presentation, ...)' },
+  { id: 'a11y/aria-reference', category: 'accessibility', description: 'aria-labelledby, aria-describedby, aria-controls and other id references must point at existing ids' },
+  { id: 'a11y/duplicate-id', category: 'accessibility', description: 'Element ids must be unique' },
+  { id: 'a11y/color-contrast', category: 'accessibility', description: 'Text must reach WCAG AA contrast against its background (4.5:1, 3:1 for large text)' },
+  { id: 'a11y/nested-interactive', category: 'accessibility', description: 'Interactive elements (links, buttons, form controls) must not be nested inside each other' }
+];
+
+// Bootstrap classes and the MADE classes they usually migrate to; also used by the migrate prompt
+export const BOOTSTRAP_TO_MADE: Record<string, string> = {
+  'btn': 'made-btn',
+  'btn-primary': 'made-btn-primary',
+  'btn-secondary': 'made-btn-secondary',
+  'btn-sm': 'made-btn-sm',
+  'btn-lg': 'made-btn-lg',
+  'card': 'made-card',
+  'card-header': 'made-card-header',
+  'card-body': 'made-card-body',
+  'card-title': 'made-card-title',
+  'card-footer': 'made-card-footer',
+  'alert': 'made-alert',
+  'alert-primary': 'made-alert-primary',
+  'alert-success': 'made-alert-success',
+  'alert-warning': 'made-alert-warning',
+  'alert-danger': 'made-alert-error',
+  'form-control': 'made-form-control',
+  'form-group': 'made-form-group',
+  'form-label': 'made-form-label',
+  'form-select': 'made-form-control',
+  'container': 'made-container',
+  'row': 'made-row',
+  'col': 'made-col',
+  'nav': 'made-nav',
+  'navbar': 'made-navbar',
+  'badge': 'made-badge',
+  'modal': 'made-modal'
+};
+
 export class MarkupLinter {
   private tokens: MADEToken[] = [];
   private madeClasses: Set<string> = new Set();
+  private cssLinter = new CssLinter();
+  private structure = new ComponentStructure();
+  private variantConflicts = new VariantConflicts();
+  private ariaChecker = new AriaChecker();
+  private contrastChecker = new ContrastChecker();
+  private ruleEngine = new LintRuleEngine(MARKUP_LINT_RULES);
+  private html = '';
+  private locator = new SourceLocator('');
   private initialized = false;
 
-  async initialize(tokens: MADEToken[]): Promise<void> {
+  /**
+   * @param classes Class vocabulary from the classes.json index; without it
+   * made-* classes cannot be checked against the current MADE version.
+   * @param components Indexed components whose examples define the
+   * expected structure (nesting, required children, order).
+   */
+  async initialize(tokens: MADEToken[], classes: MADEClass[] = [], components: MADEComponent[] = []): Promise<void> {
     this.tokens = tokens;
-    
-    // Build a set of known MADE classes for faster lookup
-    this.buildMadeClassesSet();
+    this.madeClasses = new Set(classes.map(cls => cls.name));
+    await this.cssLinter.initialize(tokens);
+    await this.structure.initialize(components);
+    await this.variantConflicts.initialize(components, classes);
+    await this.contrastChecker.initialize(tokens, classes);
     
     this.initialized = true;
-    logger.info(`Markup linter initialized with ${this.tokens.length} tokens`);
+    logger.info(`Markup linter initialized with ${this.tokens.length} tokens and ${this.madeClasses.size} classes`);
   }
 
-  private buildMadeClassesSet(): void {
-    // Add common MADE class patterns
-    const madePatterns = [
-      'made-btn', 'made-button',
-      'made-card', 'made-alert', 'made-modal',
-      'made-input', 'made-form', 'made-textarea',
-      'made-nav', 'made-navbar', 'made-menu',
-      'made-grid', 'made-container', 'made-row', 'made-col',
-      'made-text', 'made-heading', 'made-title',
-      'made-badge', 'made-tag', 'made-chip',
-      'made-icon', 'made-avatar', 'made-image'
-    ];
-    
-    madePatterns.forEach(pattern => this.madeClasses.add(pattern));
-    
-    // Add utility classes
-    const utilityPatterns = [
-      // Spacing
-      'p-0', 'p-1', 'p-2', 'p-3', 'p-4', 'p-5',
-      'm-0', 'm-1', 'm-2', 'm-3', 'm-4', 'm-5',
-      'pt-', 'pb-', 'pl-', 'pr-', 'px-', 'py-',
-      'mt-', 'mb-', 'ml-', 'mr-', 'mx-', 'my-',
-      
-      // Colors
-      'text-primary', 'text-secondary', 'text-success', 'text-warning', 'text-error',
-      'bg-primary', 'bg-secondary', 'bg-light', 'bg-dark',
-      
-      // Typography
-      'text-xs', 'text-sm', 'text-base', 'text-lg', 'text-xl',
-      'font-normal', 'font-medium', 'font-semibold', 'font-bold',
-      'text-left', 'text-center', 'text-right',
-      
-      // Layout
-      'flex', 'grid', 'block', 'inline', 'hidden',
-      'w-full', 'h-full', 'w-auto', 'h-auto',
-      
-      // Borders and radius
-      'border', 'border-0', 'rounded', 'rounded-sm', 'rounded-lg'
-    ];
-    
-    utilityPatterns.forEach(pattern => this.madeClasses.add(pattern));
-  }
-
-  async lint(html: string): Promise<LintIssue[]> {
+  /**
+   * Lints markup; `rules` turns rules off or changes their severity, and
+   * `<!-- made-lint-disable-next-line -->` comments in the markup are honored.
+   */
+  async lint(html: string, rules: LintRulesConfig = {}): Promise<LintIssue[]> {
     if (!this.initialized) {
       throw new Error('Markup linter not initialized');
     }
@@ -68,19 +132,24 @@ export class MarkupLinter {
     const issues: LintIssue[] = [];
     
     try {
-      const $ = load(html);
+      const $ = load(html, { sourceCodeLocationInfo: true });
+      this.html = html;
+      this.locator = new SourceLocator(html);
       
       // Check overall structure
       this.lintStructure($, issues);
       
       // Check each element
-      $('*').each((index, element) => {
-        this.lintElement($, $(element), issues, index);
+      $<Element, string>('*').each((_, element) => {
+        this.lintElement($, $(element), issues);
       });
       
       // Check for MADE-specific patterns
       this.lintMADEPatterns($, issues);
       
+      // Check component nesting against the MADE examples
+      this.lintComponentStructure($, issues);
+      
       // Check accessibility
       this.lintAccessibility($, issues);
       
@@ -92,52 +161,58 @@ export class MarkupLinter {
       });
     }
     
-    return issues;
+    return this.ruleEngine.apply(issues, rules, html);
   }
 
-  private lintStructure($: any, issues: LintIssue[]): void {
+  private lintStructure($: CheerioAPI, issues: LintIssue[]): void {
     const root = $.root();
     
     // Check for semantic HTML structure
     if (root.find('main, article, section, header, footer, nav, aside').length === 0) {
       issues.push({
         type: 'warning',
+        ruleId: 'structure/semantic-elements',
         message: 'Consider using semantic HTML elements (main, article, section, header, footer, nav, aside)',
         fixSuggestion: 'Wrap content in appropriate semantic elements for better accessibility'
       });
     }
   }
 
-  private lintElement($: any, $element: any, issues: LintIssue[], index: number): void {
+  private lintElement($: CheerioAPI, $element: Cheerio<Element>, issues: LintIssue[]): void {
     const tagName = $element.prop('tagName')?.toLowerCase();
-    const classes = $element.attr('class')?.split(/\\s+/) || [];
+    const classes: string[] = $element.attr('class')?.split(/\s+/).filter(Boolean) || [];
     
     // Check for MADE classes
-    this.checkMADEClasses($element, classes, issues, index);
+    this.checkMADEClasses($element, classes, issues);
+    this.checkLegacyClasses($element, issues);
+    this.checkVariantConflicts($element, classes, issues);
     
     // Check CSS variables usage
-    this.checkCSSVariables($element, issues, index);
+    this.checkCSSVariables($element, issues);
     
     // Check specific element patterns
     switch (tagName) {
       case 'button':
-        this.lintButton($element, classes, issues, index);
+        this.lintButton($element, classes, issues);
         break;
       case 'input':
       case 'textarea':
       case 'select':
-        this.lintFormElement($element, classes, issues, index);
+        this.lintFormElement($element, classes, issues);
         break;
       case 'a':
-        this.lintLink($element, issues, index);
+        this.lintLink($element, issues);
         break;
       case 'img':
-        this.lintImage($element, issues, index);
+        this.lintImage($element, issues);
+        break;
+      case 'style':
+        this.checkStyleBlock($element, issues);
         break;
     }
   }
 
-  private checkMADEClasses($element: any, classes: string[], issues: LintIssue[], index: number): void {
+  private checkMADEClasses($element: Cheerio<Element>, classes: string[], issues: LintIssue[]): void {
     const madeClassesFound = classes.filter(cls => 
       cls.startsWith('made-') || this.madeClasses.has(cls) || this.isUtilityClass(cls)
     );
@@ -146,70 +221,229 @@ export class MarkupLinter {
       const tagName = $element.prop('tagName')?.toLowerCase();
       
       // Only warn for components that should use MADE classes
-      if (['button', 'input', 'textarea', 'select', 'nav', 'card', 'modal'].includes(tagName)) {
+      if (['button', 'input', 'textarea', 'select', 'nav', 'card', 'modal'].includes(tagName ?? '')) {
         issues.push({
           type: 'warning',
+          ruleId: 'made/component-classes',
           message: `Element <${tagName}> doesn't use MADE classes`,
           fixSuggestion: `Consider adding appropriate MADE classes like 'made-${tagName}' or utility classes`,
-          line: index + 1
+          ...this.locate($element)
         });
       }
     }
     
-    // Check for deprecated or unknown classes
+    // Check for deprecated or unknown classes; needs the class index
+    if (this.madeClasses.size === 0) return;
+    
     classes.forEach(cls => {
-      if (cls.startsWith('made-') && !this.madeClasses.has(cls) && !this.isUtilityClass(cls)) {
+      if (cls.startsWith('made-') && !this.madeClasses.has(cls)) {
+        const similar = this.findSimilarClasses(cls);
         issues.push({
           type: 'info',
+          ruleId: 'made/unknown-class',
           message: `Unknown MADE class: ${cls}`,
-          fixSuggestion: 'Verify this class exists in the current MADE design system version',
-          line: index + 1
+          fixSuggestion: similar.length > 0
+            ? `Did you mean ${similar.join(' or ')}?`
+            : 'Verify this class exists in the current MADE design system version',
+          ...this.locate($element, 'class')
         });
       }
     });
   }
 
-  private checkCSSVariables($element: any, issues: LintIssue[], index: number): void {
+  // Two values of one variant axis on the same element
+  private checkVariantConflicts($element: Cheerio<Element>, classes: string[], issues: LintIssue[]): void {
+    this.variantConflicts.find(classes).forEach(({ cls, keep, axis, cascade }) => {
+      const reason = cascade ? 'it wins in made.css, so it is the one that renders' : 'it was added last';
+      
+      issues.push({
+        type: 'error',
+        ruleId: 'made/conflicting-variants',
+        message: `${cls} conflicts with ${keep}: both set the ${axis}`,
+        fixSuggestion: `Remove ${cls} and keep ${keep}; ${reason}`,
+        ...this.locate($element, 'class'),
+        ...this.classFix($element, cls, '')
+      });
+    });
+  }
+
+  // Bootstrap class names that have a MADE equivalent
+  private checkLegacyClasses($element: Cheerio<Element>, issues: LintIssue[]): void {
+    const classes: string[] = $element.attr('class')?.split(/\s+/).filter(Boolean) || [];
+    
+    classes.filter(cls => BOOTSTRAP_TO_MADE[cls]).forEach(cls => {
+      const replacement = BOOTSTRAP_TO_MADE[cls];
+      const applied = classes.includes(replacement);
+      
+      issues.push({
+        type: 'warning',
+        ruleId: 'made/legacy-class',
+        message: `Bootstrap class ${cls} should be ${replacement}`,
+        fixSuggestion: applied ? `Remove ${cls}; ${replacement} is already applied` : `Rename ${cls} to ${replacement}`,
+        ...this.locate($element, 'class'),
+        ...this.classFix($element, cls, applied ? '' : replacement)
+      });
+    });
+  }
+
+  private checkCSSVariables($element: Cheerio<Element>, issues: LintIssue[]): void {
     const style = $element.attr('style');
     if (!style) return;
     
+    const styleOffset = this.attributeValueOffset($element, 'style');
+    const locateInStyle = (start: number, length: number) => styleOffset === undefined
+      ? this.locate($element, 'style')
+      : this.locator.range(styleOffset + start, styleOffset + start + length);
+    
     // Find CSS variables in inline styles
-    const varMatches = style.match(/var\(--[^)]+\)/g);
-    if (varMatches) {
-      varMatches.forEach((varMatch: string) => {
-        const varName = varMatch.match(/var\((--[^)]+)\)/)?.[1];
-        if (varName && !varName.startsWith('--made-')) {
-          issues.push({
-            type: 'warning',
-            message: `Non-MADE CSS variable used: ${varName}`,
-            fixSuggestion: 'Consider using MADE design tokens (--made-*) for consistency',
-            line: index + 1
-          });
-        } else if (varName) {
-          // Check if the MADE variable exists
-          const tokenExists = this.tokens.some(token => token.name === varName);
-          if (!tokenExists) {
-            issues.push({
-              type: 'error',
-              message: `Unknown MADE token: ${varName}`,
-              fixSuggestion: 'Check available MADE design tokens or update to a valid token',
-              line: index + 1
-            });
-          }
-        }
-      });
+    for (const varMatch of style.matchAll(/var\((--[^)]+)\)/g)) {
+      const varName = varMatch[1];
+      const location = locateInStyle(varMatch.index ?? 0, varMatch[0].length);
+      
+      if (!varName.startsWith('--made-')) {
+        issues.push({
+          type: 'warning',
+          ruleId: 'made/non-made-variable',
+          message: `Non-MADE CSS variable used: ${varName}`,
+          fixSuggestion: 'Consider using MADE design tokens (--made-*) for consistency',
+          ...location
+        });
+      } else if (!this.tokens.some(token => token.name === varName)) {
+        // The MADE variable must exist
+        issues.push({
+          type: 'error',
+          ruleId: 'made/unknown-token',
+          message: `Unknown MADE token: ${varName}`,
+          fixSuggestion: 'Check available MADE design tokens or update to a valid token',
+          ...location
+        });
+      }
     }
+    
+    // Literal values that a token already provides; the style is wrapped in a rule to parse it
+    const css = `*{${style}}`;
+    this.cssLinter.lintValues(css).forEach(({ fix, ...issue }) => {
+      issues.push(styleOffset === undefined
+        ? { ...issue, ...this.locate($element, 'style') }
+        : { ...issue, ...this.translate(issue, css, styleOffset - 2), ...this.translateFix(fix, css, styleOffset - 2) });
+    });
   }
 
-  private lintButton($element: any, classes: string[], issues: LintIssue[], index: number): void {
+  // Literal colors, spacing, font sizes, radii and shadows in a <style> block
+  private checkStyleBlock($element: Cheerio<Element>, issues: LintIssue[]): void {
+    const css = $element.text();
+    const contentOffset = this.sourceLocation($element)?.startTag?.endOffset;
+    
+    this.cssLinter.lintValues(css).forEach(({ fix, ...issue }) => {
+      issues.push(contentOffset === undefined
+        ? { ...issue, ...this.locate($element) }
+        : { ...issue, ...this.translate(issue, css, contentOffset), ...this.translateFix(fix, css, contentOffset) });
+    });
+  }
+
+  /**
+   * Issue range within embedded CSS → range in the markup, given the markup
+   * offset at which the CSS text starts.
+   */
+  private translate(issue: LintIssue, css: string, baseOffset: number): Partial<SourceRange> {
+    if (issue.line === undefined || issue.column === undefined) return {};
+    
+    const cssLocator = new SourceLocator(css);
+    const start = cssLocator.offsetAt(issue.line, issue.column);
+    const end = issue.endLine !== undefined && issue.endColumn !== undefined
+      ? cssLocator.offsetAt(issue.endLine, issue.endColumn)
+      : start;
+    return this.locator.range(baseOffset + start, baseOffset + end);
+  }
+
+  // A fix within embedded CSS → the same edit in the markup, if the text lines up
+  private translateFix(fix: LintEdit | undefined, css: string, baseOffset: number): Pick<LintIssue, 'fix'> {
+    if (!fix) return {};
+    
+    const { startOffset, endOffset } = fix.range;
+    const original = css.slice(startOffset, endOffset);
+    if (this.html.slice(baseOffset + startOffset, baseOffset + endOffset) !== original) return {};
+    
+    return { fix: this.edit(baseOffset + startOffset, baseOffset + endOffset, fix.replacement, fix.description) };
+  }
+
+  /**
+   * Source range of an element's start tag, or of one of its attributes.
+   */
+  private locate(target: Element | Cheerio<Element>, attribute?: string): Partial<SourceRange> {
+    const location = this.sourceLocation(target);
+    if (!location) return {};
+    
+    const range = (attribute && location.attrs?.[attribute]) || location.startTag || location;
+    return this.locator.range(range.startOffset, range.endOffset);
+  }
+
+  private sourceLocation(target: Element | Cheerio<Element>): ElementLocation | undefined {
+    const element = 'length' in target ? target[0] : target;
+    return (element?.sourceCodeLocation as ElementLocation | null | undefined) ?? undefined;
+  }
+
+  private edit(startOffset: number, endOffset: number, replacement: string, description: string): LintEdit {
+    return {
+      range: { startOffset, endOffset, ...this.locator.range(startOffset, endOffset) },
+      replacement,
+      description
+    };
+  }
+
+  // Fix inserting attributes right after the element's tag name
+  private attributeFix(target: Element | Cheerio<Element>, attributes: string): Pick<LintIssue, 'fix'> {
+    const element = 'length' in target ? target[0] : target;
+    const startTag = this.sourceLocation(target)?.startTag;
+    if (!element || !startTag) return {};
+    
+    const offset = startTag.startOffset + 1 + element.tagName.length;
+    return { fix: this.edit(offset, offset, ` ${attributes}`, `Add ${attributes}`) };
+  }
+
+  // Fix renaming one class in the class attribute, or removing it when `replacement` is empty
+  private classFix($element: Cheerio<Element>, cls: string, replacement: string): Pick<LintIssue, 'fix'> {
+    const valueOffset = this.attributeValueOffset($element, 'class');
+    const attributeEnd = this.sourceLocation($element)?.attrs?.class?.endOffset;
+    if (valueOffset === undefined || attributeEnd === undefined) return {};
+    
+    // Classes are compared as whole tokens: names like w-1/2 or sm:p-2 are not patterns
+    const value = this.html.slice(valueOffset, attributeEnd);
+    const token = [...value.matchAll(/[^\s"']+/g)].find(([name]) => name === cls);
+    if (token?.index === undefined) return {};
+    
+    let start = valueOffset + token.index;
+    let end = start + cls.length;
+    if (replacement) {
+      return { fix: this.edit(start, end, replacement, `Rename ${cls} to ${replacement}`) };
+    }
+    
+    // Take one neighbouring space along so no double space is left behind
+    if (start > valueOffset && /\s/.test(this.html[start - 1])) start--;
+    else if (/\s/.test(this.html[end])) end++;
+    return { fix: this.edit(start, end, '', `Remove ${cls}`) };
+  }
+
+  // Offset of the first character of an attribute's value (after `name="`)
+  private attributeValueOffset($element: Cheerio<Element>, attribute: string): number | undefined {
+    const location = this.sourceLocation($element)?.attrs?.[attribute];
+    if (!location) return undefined;
+    
+    const raw = this.html.slice(location.startOffset, location.endOffset);
+    const prefix = raw.match(/^[^=]*=\s*["']?/)?.[0];
+    return prefix === undefined ? undefined : location.startOffset + prefix.length;
+  }
+
+  private lintButton($element: Cheerio<Element>, classes: string[], issues: LintIssue[]): void {
     // Check for button variants
     const hasButtonClass = classes.some(cls => cls.includes('btn') || cls.includes('button'));
     if (!hasButtonClass) {
       issues.push({
         type: 'warning',
+        ruleId: 'made/component-classes',
         message: 'Button element should use MADE button classes',
         fixSuggestion: "Add classes like 'made-btn', 'made-btn-primary', etc.",
-        line: index + 1
+        ...this.locate($element)
       });
     }
     
@@ -218,14 +452,30 @@ export class MarkupLinter {
     if (!type && !$element.attr('aria-label') && !$element.text().trim()) {
       issues.push({
         type: 'error',
+        ruleId: 'a11y/button-name',
         message: 'Button needs accessible text content or aria-label',
         fixSuggestion: 'Add text content or aria-label attribute',
-        line: index + 1
+        ...this.locate($element)
+      });
+    }
+    
+    // Without a type a button submits its form; make the intent explicit
+    if (!type) {
+      const inForm = $element.closest('form').length > 0;
+      issues.push({
+        type: 'warning',
+        ruleId: 'a11y/button-type',
+        message: 'Button should declare its type',
+        fixSuggestion: inForm
+          ? 'Add type="submit", or type="button" if it should not submit the form'
+          : 'Add type="button"',
+        ...this.locate($element),
+        ...this.attributeFix($element, inForm ? 'type="submit"' : 'type="button"')
       });
     }
   }
 
-  private lintFormElement($element: any, classes: string[], issues: LintIssue[], index: number): void {
+  private lintFormElement($element: Cheerio<Element>, classes: string[], issues: LintIssue[]): void {
     const tagName = $element.prop('tagName')?.toLowerCase();
     
     // Check for MADE form classes
@@ -236,9 +486,10 @@ export class MarkupLinter {
     if (!hasFormClass) {
       issues.push({
         type: 'info',
+        ruleId: 'made/component-classes',
         message: `Form element <${tagName}> could use MADE form classes`,
         fixSuggestion: `Consider adding 'made-form-control', 'made-input', etc.`,
-        line: index + 1
+        ...this.locate($element)
       });
     }
     
@@ -250,32 +501,35 @@ export class MarkupLinter {
     if (!hasLabel && !hasAriaLabel) {
       issues.push({
         type: 'error',
+        ruleId: 'a11y/form-label',
         message: `Form element <${tagName}> needs a label for accessibility`,
         fixSuggestion: 'Add a <label> element or aria-label/aria-labelledby attribute',
-        line: index + 1
+        ...this.locate($element)
       });
     }
   }
 
-  private lintLink($element: any, issues: LintIssue[], index: number): void {
+  private lintLink($element: Cheerio<Element>, issues: LintIssue[]): void {
     const href = $element.attr('href');
     const text = $element.text().trim();
     
     if (!href) {
       issues.push({
         type: 'warning',
+        ruleId: 'a11y/link-href',
         message: 'Link element should have href attribute',
         fixSuggestion: 'Add href attribute or use button element for actions',
-        line: index + 1
+        ...this.locate($element)
       });
     }
     
     if (!text && !$element.attr('aria-label')) {
       issues.push({
         type: 'error',
+        ruleId: 'a11y/link-name',
         message: 'Link needs accessible text content or aria-label',
         fixSuggestion: 'Add text content or aria-label attribute',
-        line: index + 1
+        ...this.locate($element)
       });
     }
     
@@ -284,92 +538,102 @@ export class MarkupLinter {
     if (genericTexts.includes(text.toLowerCase())) {
       issues.push({
         type: 'warning',
+        ruleId: 'a11y/link-text',
         message: 'Link text is not descriptive enough',
         fixSuggestion: 'Use more descriptive link text that explains the destination',
-        line: index + 1
+        ...this.locate($element)
       });
     }
   }
 
-  private lintImage($element: any, issues: LintIssue[], index: number): void {
+  private lintImage($element: Cheerio<Element>, issues: LintIssue[]): void {
     const alt = $element.attr('alt');
     const src = $element.attr('src');
     
     if (!src) {
       issues.push({
         type: 'error',
+        ruleId: 'a11y/img-src',
         message: 'Image element must have src attribute',
-        line: index + 1
+        ...this.locate($element)
       });
     }
     
     if (alt === undefined) {
       issues.push({
         type: 'error',
+        ruleId: 'a11y/img-alt',
         message: 'Image element must have alt attribute for accessibility',
         fixSuggestion: 'Add alt attribute with descriptive text or empty alt="" for decorative images',
-        line: index + 1
+        ...this.locate($element),
+        ...this.attributeFix($element, 'alt=""')
       });
     }
   }
 
-  private lintMADEPatterns($: any, issues: LintIssue[]): void {
+  private lintMADEPatterns($: CheerioAPI, issues: LintIssue[]): void {
     // Check for component patterns that should use MADE
     
     // Cards
-    $('.card, .panel, .box').each((index: number, element: any) => {
+    $('.card, .panel, .box').each((_: number, element: Element) => {
       const $element = $(element);
       const classes = $element.attr('class')?.split(/\s+/) || [];
       
       if (!classes.some((cls: string) => cls.startsWith('made-'))) {
         issues.push({
           type: 'info',
+          ruleId: 'made/card-classes',
           message: 'Card-like component could use MADE card classes',
           fixSuggestion: "Consider using 'made-card' and related classes",
-          line: index + 1
+          ...this.locate($element)
         });
       }
     });
     
     // Modals/dialogs
-    $('.modal, .dialog, .overlay').each((index: number, element: any) => {
+    $('.modal, .dialog, .overlay').each((_: number, element: Element) => {
       const $element = $(element);
       
       if (!$element.attr('role') && !$element.attr('aria-modal')) {
         issues.push({
           type: 'error',
+          ruleId: 'a11y/dialog-role',
           message: 'Modal/dialog should have proper ARIA attributes',
           fixSuggestion: 'Add role="dialog" and aria-modal="true"',
-          line: index + 1
+          ...this.locate($element),
+          ...this.attributeFix($element, 'role="dialog" aria-modal="true"')
         });
       }
     });
   }
 
-  private lintAccessibility($: any, issues: LintIssue[]): void {
-    // Check for missing alt text on images
-    $('img:not([alt])').each((index: number, element: any) => {
+  private lintComponentStructure($: CheerioAPI, issues: LintIssue[]): void {
+    this.structure.validate($).forEach(({ element, ruleId, message, fixSuggestion }) => {
       issues.push({
-        type: 'error',
-        message: 'Image missing alt attribute',
-        fixSuggestion: 'Add alt attribute for accessibility',
-        line: index + 1
+        type: ruleId === 'made/child-order' ? 'warning' : 'error',
+        ruleId,
+        message,
+        fixSuggestion,
+        ...this.locate(element, 'class')
       });
     });
-    
+  }
+
+  private lintAccessibility($: CheerioAPI, issues: LintIssue[]): void {
     // Check for proper heading hierarchy
     const headings = $('h1, h2, h3, h4, h5, h6').toArray();
     let lastLevel = 0;
     
-    headings.forEach((heading: any, index: number) => {
+    headings.forEach((heading: Element) => {
       const level = parseInt(heading.tagName.substring(1));
       
       if (level > lastLevel + 1) {
         issues.push({
           type: 'warning',
+          ruleId: 'a11y/heading-order',
           message: `Heading level ${level} skips levels (previous was h${lastLevel})`,
           fixSuggestion: 'Use sequential heading levels for proper document structure',
-          line: index + 1
+          ...this.locate(heading)
         });
       }
       
@@ -377,49 +641,128 @@ export class MarkupLinter {
     });
     
     // Check for interactive elements without focus indicators
-    $('button, a, input, select, textarea').each((index: number, element: any) => {
+    $('button, a, input, select, textarea').each((_: number, element: Element) => {
       const $element = $(element);
       const style = $element.attr('style') || '';
       
       if (style.includes('outline: none') && !style.includes('focus')) {
         issues.push({
           type: 'warning',
+          ruleId: 'a11y/focus-outline',
           message: 'Interactive element removes focus outline without alternative',
           fixSuggestion: 'Provide alternative focus indicator when removing outline',
-          line: index + 1
+          ...this.locate($element, 'style')
         });
       }
     });
+    
+    // Check roles, aria-* attributes and ids against WAI-ARIA
+    this.ariaChecker.check($).forEach(({ element, attribute, type, ruleId, message, fixSuggestion }) => {
+      issues.push({ type, ruleId, message, fixSuggestion, ...this.locate(element, attribute) });
+    });
+    
+    // Check text contrast with colors resolved from classes, styles and tokens
+    this.contrastChecker.check($).forEach(({ element, type, ruleId, message, fixSuggestion }) => {
+      issues.push({ type, ruleId, message, fixSuggestion, ...this.locate(element) });
+    });
   }
 
   private isUtilityClass(className: string): boolean {
     // Check for utility class patterns
     const utilityPatterns = [
-      /^[mp][tlbr]?-\\d+$/,        // margin/padding
+      /^[mp][tlbr]?-\d+$/,        // margin/padding
       /^text-(left|center|right|justify)$/,
-      /^text-(xs|sm|base|lg|xl|\\d+xl)$/,
-      /^bg-\\w+$/,                 // backgrounds
-      /^text-\\w+$/,               // text colors
-      /^border(-\\w+)?$/,          // borders
-      /^rounded(-\\w+)?$/,         // border radius
-      /^w-\\w+$/,                  // widths
-      /^h-\\w+$/,                  // heights
-      /^flex(-\\w+)?$/,            // flex utilities
-      /^grid(-\\w+)?$/,            // grid utilities
-      /^font-\\w+$/,               // font weights/styles
-      /^shadow(-\\w+)?$/           // shadows
+      /^text-(xs|sm|base|lg|xl|\d+xl)$/,
+      /^bg-\w+$/,                 // backgrounds
+      /^text-\w+$/,               // text colors
+      /^border(-\w+)?$/,          // borders
+      /^rounded(-\w+)?$/,         // border radius
+      /^w-\w+$/,                  // widths
+      /^h-\w+$/,                  // heights
+      /^flex(-\w+)?$/,            // flex utilities
+      /^grid(-\w+)?$/,            // grid utilities
+      /^font-\w+$/,               // font weights/styles
+      /^shadow(-\w+)?$/           // shadows
     ];
     
     return utilityPatterns.some(pattern => pattern.test(className)) ||
            this.madeClasses.has(className);
   }
 
+  // Known classes within a small edit distance of an unknown one, closest first
+  private findSimilarClasses(className: string): string[] {
+    const maxDistance = Math.max(2, Math.floor(className.length / 4));
+    const candidates = [...this.madeClasses]
+      .map(name => ({ name, distance: this.levenshteinDistance(className, name) }))
+      .filter(candidate => candidate.distance <= maxDistance)
+      .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name));
+    
+    // Only the closest matches, at most three
+    return candidates
+      .filter(candidate => candidate.distance === candidates[0].distance)
+      .slice(0, 3)
+      .map(candidate => candidate.name);
+  }
+
+  private levenshteinDistance(str1: string, str2: string): number {
+    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+    
+    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
+    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
+    
+    for (let j = 1; j <= str2.length; j++) {
+      for (let i = 1; i <= str1.length; i++) {
+        const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+        matrix[j][i] = Math.min(
+          matrix[j][i - 1] + 1,     // deletion
+          matrix[j - 1][i] + 1,     // insertion
+          matrix[j - 1][i - 1] + cost // substitution
+        );
+      }
+    }
+    
+    return matrix[str2.length][str1.length];
+  }
+
+  /**
+   * Applies the fixes attached to `issues`. Identical edits (the same fix
+   * reported by two rules) are applied once; an edit overlapping one that
+   * was already taken is skipped.
+   */
+  applyFixes(html: string, issues: LintIssue[]): { html: string; edits: LintEdit[] } {
+    const edits: LintEdit[] = [];
+    const sorted = issues
+      .flatMap(issue => issue.fix ? [issue.fix] : [])
+      .sort((a, b) => a.range.startOffset - b.range.startOffset || a.range.endOffset - b.range.endOffset);
+    
+    sorted.forEach(edit => {
+      const previous = edits[edits.length - 1];
+      const duplicate = previous
+        && previous.range.startOffset === edit.range.startOffset
+        && previous.range.endOffset === edit.range.endOffset
+        && previous.replacement === edit.replacement;
+      
+      if (!previous || (!duplicate && edit.range.startOffset >= previous.range.endOffset)) {
+        edits.push(edit);
+      }
+    });
+    
+    // Apply from the end so earlier offsets stay valid
+    const fixed = edits.reduceRight(
+      (text, edit) => text.slice(0, edit.range.startOffset) + edit.replacement + text.slice(edit.range.endOffset),
+      html
+    );
+    return { html: fixed, edits };
+  }
+
   // Get suggestions for common component patterns
   getSuggestions(html: string): string[] {
     const suggestions: string[] = [];
     
     try {
-      const $ = load(html);
+      const $ = load(html, { sourceCodeLocationInfo: true });
+      this.html = html;
+      this.locator = new SourceLocator(html);
       
       // Suggest MADE components based on structure
       if ($('button').length > 0) {
@@ -0,0 +1,43 @@
+import { LintIssue } from '../types.js';
+
+export type SourceRange = Required<Pick<LintIssue, 'line' | 'column' | 'endLine' | 'endColumn'>>;
+
+/**
+ * Converts between character offsets and 1-based line/column positions
+ * in a source text.
+ */
+export class SourceLocator {
+  private lineStarts: number[] = [0];
+
+  constructor(private text: string) {
+    for (let index = 0; index < text.length; index++) {
+      if (text[index] === '\n') this.lineStarts.push(index + 1);
+    }
+  }
+
+  positionAt(offset: number): { line: number; column: number } {
+    const clamped = Math.max(0, Math.min(offset, this.text.length));
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.lineStarts[middle] <= clamped) low = middle;
+      else high = middle - 1;
+    }
+
+    return { line: low + 1, column: clamped - this.lineStarts[low] + 1 };
+  }
+
+  offsetAt(line: number, column: number): number {
+    const start = this.lineStarts[Math.max(0, Math.min(line - 1, this.lineStarts.length - 1))];
+    return Math.min(start + Math.max(0, column - 1), this.text.length);
+  }
+
+  // End offsets are exclusive, as in parse5 locations
+  range(startOffset: number, endOffset: number): SourceRange {
+    const start = this.positionAt(startOffset);
+    const end = this.positionAt(endOffset);
+    return { line: start.line, column: start.column, endLine: end.line, endColumn: end.column };
+  }
+}
@@ -0,0 +1,142 @@
+import { MADEClass, MADEComponent } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+interface VariantClass {
+  // Classes in the same group are mutually exclusive
+  group: string;
+  // Human-readable name of the axis, e.g. 'Button size'
+  axis: string;
+  // Declared values when the group was learned from made.css
+  declaration?: string;
+}
+
+export interface VariantConflict {
+  cls: string;
+  // The class of the group the author most likely meant
+  keep: string;
+  axis: string;
+  // Whether made.css decides which of the two renders
+  cascade: boolean;
+}
+
+/**
+ * Maps variant classes (made-btn-primary, made-btn-lg) to the variant axis
+ * they set, so an element carrying two values of one axis can be reported.
+ * Axes come from each component's `variants` map and, for classes the map
+ * does not cover, from made.css: modifiers of the same base class that
+ * declare exactly the same properties with different values cannot be
+ * combined. Modifiers that only share some properties (made-btn-lg and
+ * made-btn-icon both set padding) are separate features, not one axis.
+ */
+export class VariantConflicts {
+  private variantClasses = new Map<string, VariantClass[]>();
+  // Class → position of its rule in made.css; later rules win the cascade
+  private cssOrder = new Map<string, number>();
+
+  async initialize(components: MADEComponent[], classes: MADEClass[] = []): Promise<void> {
+    this.variantClasses = new Map();
+    this.cssOrder = new Map(classes
+      .filter(cls => cls.order !== undefined)
+      .map(cls => [cls.name, cls.order ?? 0]));
+
+    const known = new Set(classes.map(cls => cls.name));
+    components.forEach(component => this.addComponentVariants(component, known));
+    this.addLearnedVariants(classes);
+
+    logger.info(`Variant conflict detection initialized with ${this.variantClasses.size} variant classes`);
+  }
+
+  find(classes: string[]): VariantConflict[] {
+    const groups = new Map<string, Array<{ cls: string } & VariantClass>>();
+    classes.forEach(cls => {
+      (this.variantClasses.get(cls) || []).forEach(variant => {
+        const members = groups.get(variant.group) ?? [];
+        if (!members.some(member => member.cls === cls)) members.push({ cls, ...variant });
+        groups.set(variant.group, members);
+      });
+    });
+
+    const conflicts: VariantConflict[] = [];
+    groups.forEach(members => {
+      if (members.length < 2) return;
+      // Learned groups only conflict when the declarations actually differ
+      if (members[0].declaration !== undefined && members.every(member => member.declaration === members[0].declaration)) return;
+
+      const { keep, cascade } = this.likelyMeant(members.map(member => member.cls), classes);
+      members
+        .filter(member => member.cls !== keep && !conflicts.some(conflict => conflict.cls === member.cls))
+        .forEach(member => conflicts.push({ cls: member.cls, keep, axis: member.axis, cascade }));
+    });
+
+    return conflicts;
+  }
+
+  // The class made.css lets win is what the author saw rendered; without it, the one added last
+  private likelyMeant(candidates: string[], classes: string[]): { keep: string; cascade: boolean } {
+    if (candidates.every(cls => this.cssOrder.has(cls))) {
+      const keep = candidates.reduce((winner, cls) =>
+        (this.cssOrder.get(cls) ?? 0) > (this.cssOrder.get(winner) ?? 0) ? cls : winner);
+      return { keep, cascade: true };
+    }
+
+    const keep = candidates.reduce((last, cls) => classes.lastIndexOf(cls) > classes.lastIndexOf(last) ? cls : last);
+    return { keep, cascade: false };
+  }
+
+  private addComponentVariants(component: MADEComponent, classes: Set<string>): void {
+    const known = new Set([...component.cssClasses, ...classes]);
+    const bases = [...new Set([`made-${component.name.toLowerCase()}`, ...component.cssClasses])];
+
+    Object.entries(component.variants).forEach(([axis, values]) => {
+      // Boolean-like axes (true/false) are not class modifiers
+      if (values.length < 2) return;
+
+      values.forEach(value => {
+        bases
+          .flatMap(base => [`${base}-${value}`, `${base}--${value}`])
+          .filter(cls => known.has(cls))
+          .forEach(cls => this.addVariant(cls, {
+            group: `${component.name}:${axis}`,
+            axis: `${component.name} ${axis}`
+          }));
+      });
+    });
+  }
+
+  private addLearnedVariants(classes: MADEClass[]): void {
+    const names = new Set(classes.map(cls => cls.name));
+    // `${base}:${properties}` → modifiers of base declaring exactly those properties
+    const candidates = new Map<string, Array<{ name: string; base: string; properties: string[]; declaration: string }>>();
+
+    classes.forEach(({ name, declarations }) => {
+      if (this.variantClasses.has(name)) return;
+
+      // The longest class this one extends: made-btn-primary-outline extends made-btn-primary
+      const base = [...names]
+        .filter(candidate => name.startsWith(`${candidate}-`))
+        .sort((a, b) => b.length - a.length)[0];
+      const properties = Object.keys(declarations).sort();
+      if (!base || properties.length === 0) return;
+
+      const group = `${base}:${properties.join(',')}`;
+      const declaration = properties.map(property => `${property}: ${declarations[property]}`).join('; ');
+      candidates.set(group, [...(candidates.get(group) ?? []), { name, base, properties, declaration }]);
+    });
+
+    candidates.forEach((modifiers, group) => {
+      if (modifiers.length < 2) return;
+
+      modifiers.forEach(({ name, base, properties, declaration }) => this.addVariant(name, {
+        group,
+        axis: `${properties.join(', ')} of ${base}`,
+        declaration
+      }));
+    });
+  }
+
+  private addVariant(cls: string, variant: VariantClass): void {
+    const variants = this.variantClasses.get(cls) ?? [];
+    if (!variants.some(existing => existing.group === variant.group)) variants.push(variant);
+    this.variantClasses.set(cls, variants);
+  }
+}
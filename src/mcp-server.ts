@@ -1,35 +1,71 @@
 import fs from "fs-extra";
 import * as path from "path";
+import process from "node:process";
 import {
   LintIssue,
   IndexMeta,
   ListTokensResponse,
+  ResolveTokenResponse,
+  CompareThemesResponse,
+  FindNearestTokenResponse,
   ListComponentsResponse,
+  ListCategoriesResponse,
   GetComponentResponse,
   ScaffoldComponentResponse,
   SearchExamplesResponse,
   LintMarkupResponse,
+  LintCSSResponse,
+  LintRulesConfig,
+  MadeConfigSchema,
   HealthCheckResponse,
   VersionResponse,
+  MADEResource,
+  MADEResourceTemplate,
+  ReadResourceResponse,
+  MADEPrompt,
+  GetPromptResponse,
 } from "./types.js";
 import { IndexManager } from "./indexing/index-manager.js";
-import { MarkupLinter } from "./linting/markup-linter.js";
+import { MarkupLinter, MARKUP_LINT_RULES } from "./linting/markup-linter.js";
+import { CssLinter, CSS_LINT_RULES } from "./linting/css-linter.js";
+import { LintRuleEngine } from "./linting/lint-rule-engine.js";
 import { ComponentScaffolder } from "./scaffolding/component-scaffolder.js";
+import { ResourceProvider } from "./resources/resource-provider.js";
+import { PromptLibrary } from "./prompts/prompt-library.js";
+import { ComponentTaxonomy } from "./indexing/component-taxonomy.js";
+import { TokenGraph } from "./indexing/token-graph.js";
 import { SearchEngine } from "./search/search-engine.js";
+import { NearestTokenFinder } from "./search/nearest-token-finder.js";
 import { logger } from "./utils/logger.js";
 
 export class MADEMCPServer {
   private indexManager: IndexManager;
   private markupLinter: MarkupLinter;
+  private cssLinter: CssLinter;
   private componentScaffolder: ComponentScaffolder;
   private searchEngine: SearchEngine;
+  private resourceProvider: ResourceProvider;
+  private promptLibrary: PromptLibrary;
+  private componentTaxonomy: ComponentTaxonomy;
+  private tokenGraph: TokenGraph;
+  private nearestTokenFinder: NearestTokenFinder;
+  private lintRuleEngine: LintRuleEngine;
+  private lintRules: LintRulesConfig = {};
+  private indexUpdateListeners: Array<() => void | Promise<void>> = [];
   private initialized = false;
 
   constructor() {
     this.indexManager = new IndexManager();
     this.markupLinter = new MarkupLinter();
+    this.cssLinter = new CssLinter();
     this.componentScaffolder = new ComponentScaffolder();
     this.searchEngine = new SearchEngine();
+    this.resourceProvider = new ResourceProvider();
+    this.promptLibrary = new PromptLibrary();
+    this.componentTaxonomy = new ComponentTaxonomy();
+    this.tokenGraph = new TokenGraph();
+    this.nearestTokenFinder = new NearestTokenFinder();
+    this.lintRuleEngine = new LintRuleEngine([...MARKUP_LINT_RULES, ...CSS_LINT_RULES]);
   }
 
   async initialize(): Promise<void> {
@@ -43,19 +79,10 @@ export class MADEMCPServer {
       // Load indexes
       await this.indexManager.loadIndexes();
 
-      // Initialize search engine with indexes
-      await this.searchEngine.initialize(
-        this.indexManager.getComponents(),
-        this.indexManager.getTokens()
-      );
-
-      // Initialize linter with design system rules
-      await this.markupLinter.initialize(this.indexManager.getTokens());
+      // Team lint rule settings, before the prompts that list the rules
+      await this.loadLintConfig();
 
-      // Initialize scaffolder with components
-      await this.componentScaffolder.initialize(
-        this.indexManager.getComponents()
-      );
+      await this.initializeFromIndexes();
 
       this.initialized = true;
       logger.info("MADE MCP Server initialized successfully");
@@ -65,37 +92,203 @@ export class MADEMCPServer {
     }
   }
 
+  private async initializeFromIndexes(): Promise<void> {
+    // Initialize alias graph and themes for token resolution
+    await this.tokenGraph.initialize(this.indexManager.getTokens());
+
+    // Consumers see one value per token: the default theme
+    const tokens = this.tokenGraph.getThemeTokens();
+
+    // Initialize search engine with indexes
+    await this.searchEngine.initialize(
+      this.indexManager.getComponents(),
+      tokens
+    );
+
+    // Index typed token values for nearest-token lookups
+    await this.nearestTokenFinder.initialize(tokens);
+
+    // Initialize linter with design system rules
+    await this.markupLinter.initialize(
+      tokens,
+      this.indexManager.getClasses(),
+      this.indexManager.getComponents()
+    );
+    await this.cssLinter.initialize(tokens);
+
+    // Initialize scaffolder with components
+    await this.componentScaffolder.initialize(
+      this.indexManager.getComponents()
+    );
+
+    // Initialize category tree from component title paths
+    await this.componentTaxonomy.initialize(this.indexManager.getComponents());
+
+    // Initialize resources with components, tokens and metadata
+    await this.resourceProvider.initialize(
+      this.indexManager.getComponents(),
+      tokens,
+      await this.getIndexMeta()
+    );
+
+    // Initialize prompts with components, tokens and the lint rules in effect
+    await this.promptLibrary.initialize(
+      this.indexManager.getComponents(),
+      tokens,
+      MARKUP_LINT_RULES,
+      this.lintRules
+    );
+  }
+
+  /**
+   * Reads rule severities from .maderc.json in the working directory (or the
+   * file named by MADE_LINT_CONFIG). An invalid file is ignored with a warning.
+   */
+  private async loadLintConfig(): Promise<void> {
+    const configPath = process.env.MADE_LINT_CONFIG || ".maderc.json";
+    this.lintRules = {};
+
+    if (!(await fs.pathExists(configPath))) return;
+
+    try {
+      const rules = MadeConfigSchema.parse(await fs.readJson(configPath)).rules ?? {};
+      this.lintRuleEngine.validate(rules);
+      this.lintRules = rules;
+      logger.info(`Loaded ${Object.keys(rules).length} lint rule settings from ${configPath}`);
+    } catch (error) {
+      logger.warn(
+        `Ignoring lint config ${configPath}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Reloads indexes from disk, re-initializes every consumer and notifies
+   * listeners registered with onIndexesUpdated().
+   */
+  async reloadIndexes(): Promise<void> {
+    await this.indexManager.loadIndexes();
+    await this.initializeFromIndexes();
+    logger.info("MADE indexes reloaded");
+
+    for (const listener of this.indexUpdateListeners) {
+      try {
+        await listener();
+      } catch (error) {
+        logger.warn("Index update listener failed:", error);
+      }
+    }
+  }
+
+  // Reload whenever the sync/build scripts rewrite the indexes
+  watchIndexes(): () => void {
+    return this.indexManager.watchIndexes(() => this.reloadIndexes());
+  }
+
+  onIndexesUpdated(listener: () => void | Promise<void>): () => void {
+    this.indexUpdateListeners.push(listener);
+    return () => {
+      this.indexUpdateListeners = this.indexUpdateListeners.filter(
+        (registered) => registered !== listener
+      );
+    };
+  }
+
   private ensureInitialized(): void {
     if (!this.initialized) {
       throw new Error("Server not initialized. Call initialize() first.");
     }
   }
 
-  async listTokens(scope?: string): Promise<ListTokensResponse> {
+  async listTokens(scope?: string, theme?: string): Promise<ListTokensResponse> {
     this.ensureInitialized();
+    this.ensureTheme(theme);
 
-    const allTokens = this.indexManager.getTokens();
+    const allTokens = this.tokenGraph.getThemeTokens(theme);
     const filteredTokens = scope
       ? allTokens.filter((token) => token.category === scope)
       : allTokens;
 
-    return {
+    const response: ListTokensResponse = {
       tokens: filteredTokens,
       meta: {
         totalCount: allTokens.length,
         filteredCount: filteredTokens.length,
       },
     };
+
+    const themes = this.tokenGraph.getThemes();
+    if (theme) response.meta!.theme = theme;
+    if (themes.length > 0) response.meta!.themes = themes;
+
+    return response;
+  }
+
+  async compareThemes(
+    target: string,
+    base?: string,
+    category?: string
+  ): Promise<CompareThemesResponse> {
+    this.ensureInitialized();
+    this.ensureTheme(base);
+    this.ensureTheme(target);
+
+    const comparison = this.tokenGraph.compareThemes(base, target);
+    if (category) {
+      comparison.changed = comparison.changed.filter(
+        (change) => change.category === category
+      );
+    }
+    return comparison;
+  }
+
+  private ensureTheme(theme?: string): void {
+    if (theme && !this.tokenGraph.hasTheme(theme)) {
+      const themes = this.tokenGraph.getThemes();
+      throw new Error(
+        `Theme '${theme}' not found. Available themes: ${themes.length > 0 ? themes.join(", ") : "none"}`
+      );
+    }
+  }
+
+  async resolveToken(name: string, theme?: string): Promise<ResolveTokenResponse> {
+    this.ensureInitialized();
+    this.ensureTheme(theme);
+
+    const resolved = this.tokenGraph.resolve(name, theme);
+    if (!resolved) {
+      throw new Error(`Token '${name}' not found`);
+    }
+    return resolved;
+  }
+
+  async findNearestToken(
+    value: string,
+    category?: string,
+    limit?: number
+  ): Promise<FindNearestTokenResponse> {
+    this.ensureInitialized();
+
+    return this.nearestTokenFinder.find(value, category, limit);
   }
 
-  async listComponents(): Promise<ListComponentsResponse> {
+  async listComponents(category?: string): Promise<ListComponentsResponse> {
     this.ensureInitialized();
 
-    const components = this.indexManager.getComponents();
+    let components = this.indexManager.getComponents();
+
+    if (category) {
+      components = components.filter((component) =>
+        this.componentTaxonomy.matchesCategory(component, category)
+      );
+    }
 
     return {
       components: components.map((component) => ({
+        id: component.id,
         name: component.name,
+        category: component.category,
         description: component.description,
         tags: component.tags,
         variants: component.variants,
@@ -105,28 +298,38 @@ export class MADEMCPServer {
     };
   }
 
+  async listCategories(): Promise<ListCategoriesResponse> {
+    this.ensureInitialized();
+    return this.componentTaxonomy.getCategories();
+  }
+
   async getComponent(name: string): Promise<GetComponentResponse> {
     this.ensureInitialized();
 
     const component = this.indexManager
       .getComponents()
-      .find((comp) => comp.name.toLowerCase() === name.toLowerCase());
+      .find((comp) => comp.name.toLowerCase() === name.toLowerCase() || comp.id === name);
 
     if (!component) {
       throw new Error(`Component '${name}' not found`);
     }
 
     return {
+      id: component.id,
       name: component.name,
+      category: component.category,
+      path: component.path,
       description: component.description,
       tags: component.tags,
       variants: component.variants,
       props: component.props,
       a11yNotes: component.a11yNotes || [],
+      docs: component.docs,
       htmlScaffold: component.htmlScaffold,
       cssClasses: component.cssClasses,
       cssVarsUsed: component.cssVarsUsed,
       examples: component.examples,
+      sources: component.sources,
       html: component.htmlScaffold,
       classes: component.cssClasses,
     };
@@ -140,7 +343,7 @@ export class MADEMCPServer {
 
     const component = this.indexManager
       .getComponents()
-      .find((comp) => comp.name.toLowerCase() === name.toLowerCase());
+      .find((comp) => comp.name.toLowerCase() === name.toLowerCase() || comp.id === name);
 
     if (!component) {
       throw new Error(`Component '${name}' not found`);
@@ -163,18 +366,87 @@ export class MADEMCPServer {
     };
   }
 
-  async lintMarkup(html: string): Promise<LintMarkupResponse> {
+  async lintMarkup(
+    html: string,
+    fix = false,
+    rules?: LintRulesConfig
+  ): Promise<LintMarkupResponse> {
     this.ensureInitialized();
 
-    const issues = await this.markupLinter.lint(html);
+    // Per-call rules override the configured ones
+    if (rules) this.lintRuleEngine.validate(rules);
+    const issues = await this.markupLinter.lint(html, {
+      ...this.lintRules,
+      ...rules,
+    });
+    const response: LintMarkupResponse = {
+      valid: issues.filter((issue) => issue.type === "error").length === 0,
+      issues,
+      suggestions: this.generateLintSuggestions(issues),
+    };
+
+    if (fix) {
+      const { html: fixedHtml, edits } = this.markupLinter.applyFixes(html, issues);
+      response.fixedHtml = fixedHtml;
+      response.edits = edits;
+    }
+
+    return response;
+  }
+
+  async lintCSS(
+    css: string,
+    syntax?: "css" | "scss",
+    rules?: LintRulesConfig
+  ): Promise<LintCSSResponse> {
+    this.ensureInitialized();
+
+    // Per-call rules override the configured ones
+    if (rules) this.lintRuleEngine.validate(rules);
+    const issues = this.cssLinter.lint(css, syntax, {
+      ...this.lintRules,
+      ...rules,
+    });
 
     return {
       valid: issues.filter((issue) => issue.type === "error").length === 0,
       issues,
-      suggestions: this.generateLintSuggestions(issues),
     };
   }
 
+  async listResources(): Promise<MADEResource[]> {
+    this.ensureInitialized();
+    return this.resourceProvider.listResources();
+  }
+
+  async listResourceTemplates(): Promise<MADEResourceTemplate[]> {
+    return this.resourceProvider.listResourceTemplates();
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResponse> {
+    this.ensureInitialized();
+    return this.resourceProvider.readResource(uri);
+  }
+
+  async listPrompts(): Promise<MADEPrompt[]> {
+    return this.promptLibrary.listPrompts();
+  }
+
+  async getPrompt(
+    name: string,
+    args?: Record<string, string>
+  ): Promise<GetPromptResponse> {
+    this.ensureInitialized();
+
+    // Audits start from the linter's findings for the submitted markup
+    const lintIssues =
+      name === "audit_markup" && args?.html
+        ? await this.markupLinter.lint(args.html, this.lintRules)
+        : [];
+
+    return this.promptLibrary.getPrompt(name, args, lintIssues);
+  }
+
   async healthCheck(): Promise<HealthCheckResponse> {
     const checks = [];
 
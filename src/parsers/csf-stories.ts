@@ -0,0 +1,139 @@
+import ts from 'typescript';
+import { FunctionLike, StoryFileAST } from './story-ast.js';
+import { Scope, TemplateEvaluator } from './template-evaluator.js';
+
+export interface CSFStory {
+  exportName: string;
+  name?: string;
+  description?: string;
+  args: Record<string, unknown>;
+  template: string | null;
+  startLine?: number;
+  endLine?: number;
+}
+
+/**
+ * Extracts Component Story Format (CSF2/CSF3) stories from a story file:
+ * merges meta and story args, resolves the story or meta `render` function
+ * and renders its template literal with the story's args.
+ */
+export class CSFStoryExtractor {
+  extract(ast: StoryFileAST): CSFStory[] {
+    const meta = ast.getMeta();
+    const metaArgs = this.asRecord(ast.evaluate(ast.getMetaProperty('args')));
+    const metaRender = meta ? ast.getAnnotation(meta, 'render') : undefined;
+    const excluded = this.asStringArray(ast.evaluate(ast.getMetaProperty('excludeStories')));
+
+    const stories: CSFStory[] = [];
+
+    ast.getNamedExports().forEach(({ name, node }) => {
+      if (excluded.includes(name)) return;
+
+      const storyFunction = ast.resolveFunction(node);
+      const isStoryObject = ts.isObjectLiteralExpression(ast.resolveExpression(node) ?? node);
+      if (!storyFunction && !isStoryObject) return;
+
+      const args = {
+        ...metaArgs,
+        ...this.asRecord(ast.evaluate(this.asExpression(ast.getAnnotation(node, 'args'))))
+      };
+
+      // A CSF2 story is its own render function; CSF3 stories fall back to the meta render
+      const render = ast.resolveFunction(ast.getAnnotation(node, 'render'))
+        ?? storyFunction
+        ?? ast.resolveFunction(metaRender);
+
+      const storyName = ast.evaluate(this.asExpression(ast.getAnnotation(node, 'name') ?? ast.getAnnotation(node, 'storyName')));
+      const description = ast.evaluate(this.asExpression(this.getStoryDescription(ast, node)));
+
+      stories.push({
+        exportName: name,
+        name: typeof storyName === 'string' ? storyName : undefined,
+        description: typeof description === 'string' ? description : undefined,
+        args,
+        template: render ? this.renderTemplate(ast, render, args) : null,
+        ...ast.getDeclarationRange(name)
+      });
+    });
+
+    return stories;
+  }
+
+  private getStoryDescription(ast: StoryFileAST, story: ts.Expression): ts.Expression | ts.MethodDeclaration | undefined {
+    // parameters.docs.description.story
+    let current: ts.Expression | ts.MethodDeclaration | undefined = ast.getAnnotation(story, 'parameters');
+    for (const key of ['docs', 'description', 'story']) {
+      current = ast.getAnnotation(this.asExpression(current), key);
+    }
+    return current;
+  }
+
+  private renderTemplate(ast: StoryFileAST, render: FunctionLike, args: Record<string, unknown>): string | null {
+    const body = this.getReturnedExpression(ast, render);
+    if (!body) return null;
+
+    if (ts.isJsxElement(body) || ts.isJsxSelfClosingElement(body) || ts.isJsxFragment(body)) {
+      return body.getText(ast.sourceFile);
+    }
+
+    const scope = this.bindParameters(ast, render, args);
+    return new TemplateEvaluator(ast).render(body, scope);
+  }
+
+  private getReturnedExpression(ast: StoryFileAST, fn: FunctionLike): ts.Expression | undefined {
+    if (!fn.body) return undefined;
+
+    if (!ts.isBlock(fn.body)) {
+      return ast.unwrap(fn.body);
+    }
+
+    const returns = fn.body.statements.filter(ts.isReturnStatement);
+    const last = returns[returns.length - 1];
+    return last?.expression ? ast.unwrap(last.expression) : undefined;
+  }
+
+  private bindParameters(ast: StoryFileAST, fn: FunctionLike, args: Record<string, unknown>): Scope {
+    const scope: Scope = {};
+    const parameter = fn.parameters[0];
+    if (!parameter) return scope;
+
+    if (ts.isIdentifier(parameter.name)) {
+      scope[parameter.name.text] = args;
+      return scope;
+    }
+
+    if (ts.isObjectBindingPattern(parameter.name)) {
+      const used = new Set<string>();
+
+      parameter.name.elements.forEach(element => {
+        if (!ts.isIdentifier(element.name)) return;
+
+        if (element.dotDotDotToken) {
+          scope[element.name.text] = Object.fromEntries(Object.entries(args).filter(([key]) => !used.has(key)));
+          return;
+        }
+
+        const key = element.propertyName && (ts.isIdentifier(element.propertyName) || ts.isStringLiteral(element.propertyName))
+          ? element.propertyName.text
+          : element.name.text;
+        used.add(key);
+
+        scope[element.name.text] = args[key] !== undefined ? args[key] : ast.evaluate(element.initializer);
+      });
+    }
+
+    return scope;
+  }
+
+  private asExpression(node: ts.Expression | ts.MethodDeclaration | undefined): ts.Expression | undefined {
+    return node && !ts.isMethodDeclaration(node) ? node : undefined;
+  }
+
+  private asRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  }
+
+  private asStringArray(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  }
+}
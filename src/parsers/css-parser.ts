@@ -1,31 +1,39 @@
 import fs from 'fs-extra';
 import { parse } from '@adobe/css-tools';
-import { MADEToken } from '../types.js';
+import { MADEToken, MADEClass } from '../types.js';
+import { DTCGParser } from './dtcg-parser.js';
 import { logger } from '../utils/logger.js';
 
 export class CSSParser {
   private tokens: MADEToken[] = [];
-  private utilityClasses: string[] = [];
+  private classes = new Map<string, MADEClass>();
+  // Rules seen across all parsed CSS files, in source order
+  private ruleCount = 0;
+  private dtcgParser = new DTCGParser();
 
   async parseMadeCSS(cssFilePath: string): Promise<void> {
     try {
       const cssContent = await fs.readFile(cssFilePath, 'utf-8');
       const ast = parse(cssContent);
       
-      await this.extractUtilityClasses(ast);
-      logger.info(`Parsed ${this.utilityClasses.length} utility classes from ${cssFilePath}`);
+      await this.extractUtilityClasses(ast, cssFilePath);
+      logger.info(`Parsed ${this.classes.size} classes from ${cssFilePath}`);
     } catch (error) {
       logger.error(`Failed to parse CSS file ${cssFilePath}:`, error);
       throw error;
     }
   }
 
-  async parseMadeCSSVariables(variablesFilePath: string): Promise<void> {
+  /**
+   * @param theme Theme every value in the file belongs to (e.g. 'b2b'); selector
+   * themes such as `[data-theme="dark"]` are nested under it ('b2b/dark').
+   */
+  async parseMadeCSSVariables(variablesFilePath: string, theme?: string): Promise<void> {
     try {
       const cssContent = await fs.readFile(variablesFilePath, 'utf-8');
       const ast = parse(cssContent);
       
-      await this.extractCSSVariables(ast);
+      await this.extractCSSVariables(ast, variablesFilePath, theme);
       logger.info(`Parsed ${this.tokens.length} CSS variables from ${variablesFilePath}`);
     } catch (error) {
       logger.error(`Failed to parse CSS variables file ${variablesFilePath}:`, error);
@@ -37,12 +45,25 @@ export class CSSParser {
     }
   }
 
-  async parseMadeTokensJSON(jsonFilePath: string): Promise<void> {
+  async parseMadeTokensJSON(jsonFilePath: string, theme?: string): Promise<void> {
     try {
       const jsonContent = await fs.readFile(jsonFilePath, 'utf-8');
       const tokensData = JSON.parse(jsonContent);
       
-      await this.extractJSONTokens(tokensData);
+      if (this.dtcgParser.isDTCG(tokensData)) {
+        const tokens = this.dtcgParser.parse(tokensData, jsonFilePath, jsonContent);
+        
+        // Types without a fixed category (dimension, number, border...) are categorized by name
+        tokens.forEach(token => {
+          if (theme) token.theme = theme;
+          if (token.category !== 'other') return;
+          const category = this.categorizeToken(token.name);
+          token.category = category === 'other' && token.type === 'dimension' ? 'spacing' : category;
+        });
+        this.mergeTokens(tokens);
+      } else {
+        await this.extractJSONTokens(tokensData, jsonFilePath, jsonContent, theme);
+      }
       logger.info(`Parsed ${this.tokens.length} tokens from JSON file ${jsonFilePath}`);
     } catch (error) {
       logger.error(`Failed to parse JSON tokens file ${jsonFilePath}:`, error);
@@ -50,14 +71,23 @@ export class CSSParser {
     }
   }
 
-  private async extractCSSVariables(ast: any): Promise<void> {
+  private async extractCSSVariables(ast: any, filePath: string, fileTheme?: string): Promise<void> {
     const tokens: MADEToken[] = [];
     
     // Walk through the AST to find CSS custom properties (variables)
-    this.walkAST(ast, (rule: any) => {
-      if (rule.type === 'rule' && rule.selectors?.includes(':root')) {
-        // Process :root selector
-        rule.declarations?.forEach((decl: any) => {
+    this.collectThemeRules(ast).forEach(({ rule, colorScheme }) => {
+      // One rule can define several themes (`:root, [data-theme="light"]`)
+      const themes = new Set<string | undefined>();
+      rule.selectors.forEach((selector: string) => {
+        const theme = this.getSelectorTheme(selector);
+        if (theme === null) return;
+        
+        const selected = theme ?? colorScheme;
+        themes.add(fileTheme && selected ? `${fileTheme}/${selected}` : fileTheme ?? selected);
+      });
+      
+      themes.forEach(theme => {
+        rule.declarations?.forEach((decl: any, declIndex: number) => {
           if (decl.type === 'declaration' && decl.property?.startsWith('--made-')) {
             // Extract comment description if available
             let description = this.extractTokenDescription(decl.property, decl.value);
@@ -76,19 +106,69 @@ export class CSSParser {
               category: this.categorizeToken(decl.property),
               description
             };
+            if (theme) token.theme = theme;
+            
+            // `/* @deprecated Use --made-x */` before the declaration or as its inline comment
+            const previous = rule.declarations[declIndex - 1];
+            const deprecation = [commentMatch?.[2], previous?.type === 'comment' ? previous.comment : undefined]
+              .map(comment => comment?.match(/^\s*@?deprecated\b:?\s*(.*)$/is))
+              .find(Boolean);
+            if (deprecation) token.deprecated = deprecation[1].trim() || true;
+            
+            if (decl.position) {
+              token.source = {
+                path: filePath,
+                startLine: decl.position.start.line,
+                endLine: decl.position.end.line
+              };
+            }
             tokens.push(token);
           }
         });
+      });
+    });
+    
+    this.mergeTokens(tokens);
+  }
+
+  /**
+   * Style rules of a stylesheet AST, including those nested in `@media`,
+   * `@supports` and similar blocks, with the `prefers-color-scheme` they apply to.
+   */
+  collectThemeRules(node: any, colorScheme?: string): Array<{ rule: any; colorScheme?: string }> {
+    const children = node.stylesheet?.rules || node.rules || [];
+    
+    return children.flatMap((child: any) => {
+      if (child.type === 'rule' && child.selectors) {
+        return [{ rule: child, colorScheme }];
+      }
+      if (child.type === 'media') {
+        const scheme = child.media?.match(/prefers-color-scheme\s*:\s*(dark|light)/)?.[1];
+        return this.collectThemeRules(child, scheme ?? colorScheme);
       }
+      return child.rules ? this.collectThemeRules(child, colorScheme) : [];
     });
+  }
+
+  /**
+   * Theme a token selector applies to: undefined for `:root` / `html`,
+   * 'dark' for `[data-theme="dark"]` or `.theme-dark`, null for other selectors.
+   */
+  private getSelectorTheme(selector: string): string | undefined | null {
+    const trimmed = selector.trim();
+    
+    const dataTheme = trimmed.match(/\[data-theme\s*[~|^$*]?=\s*["']?([\w-]+)["']?\s*(?:i\s*)?\]/);
+    if (dataTheme) return dataTheme[1];
+    
+    const themeClass = trimmed.match(/\.theme-([\w-]+)/);
+    if (themeClass) return themeClass[1];
     
-    // Merge with existing tokens, avoiding duplicates
-    const existingNames = new Set(this.tokens.map(t => t.name));
-    const newTokens = tokens.filter(t => !existingNames.has(t.name));
-    this.tokens = [...this.tokens, ...newTokens];
+    return /^(:root|html|:host)$/.test(trimmed) ? undefined : null;
   }
 
-  private async extractJSONTokens(tokensData: any): Promise<void> {
+  private async extractJSONTokens(tokensData: any, filePath: string, content: string, theme?: string): Promise<void> {
+    const lines = content.split('\n');
+
     const tokens: MADEToken[] = [];
     
     // Handle flat token structure (like Made design tokens)
@@ -104,15 +184,31 @@ export class CSSParser {
             category: this.categorizeToken(cssVarName),
             description: this.extractTokenDescription(cssVarName, value as string)
           };
+          
+          if (theme) token.theme = theme;
+          
+          const line = lines.findIndex(text => text.includes(JSON.stringify(key) + ':') || text.includes(JSON.stringify(key) + ' :'));
+          token.source = line === -1
+            ? { path: filePath }
+            : { path: filePath, startLine: line + 1, endLine: line + 1 };
           tokens.push(token);
         }
       }
     }
     
-    // Merge with existing tokens, avoiding duplicates
-    const existingNames = new Set(this.tokens.map(t => t.name));
-    const newTokens = tokens.filter(t => !existingNames.has(t.name));
-    this.tokens = [...this.tokens, ...newTokens];
+    this.mergeTokens(tokens);
+  }
+
+  // Merge with existing tokens, avoiding duplicates within a theme
+  private mergeTokens(tokens: MADEToken[]): void {
+    const key = (token: MADEToken) => `${token.theme ?? ''}\u0000${token.name}`;
+    const existing = new Set(this.tokens.map(key));
+    
+    tokens.forEach(token => {
+      if (existing.has(key(token))) return;
+      existing.add(key(token));
+      this.tokens.push(token);
+    });
   }
 
   private convertToCSSVariable(tokenName: string): string {
@@ -123,47 +219,48 @@ export class CSSParser {
       .replace(/^-/, '');
   }
 
-  private async extractUtilityClasses(ast: any): Promise<void> {
-    const classes: string[] = [];
+  /**
+   * made-* and utility classes with the selectors they appear in and the
+   * declarations of their bare-class rules (later rules win, as in the cascade;
+   * the last one's position is the class's `order`).
+   * Only top-level rules count as declarations: `@media` blocks (dark scheme,
+   * print) would otherwise replace the base values.
+   */
+  private async extractUtilityClasses(ast: any, filePath: string): Promise<void> {
+    const topLevel = new Set(ast.stylesheet?.rules || []);
     
-    this.walkAST(ast, (rule: any) => {
-      if (rule.type === 'rule' && rule.selectors) {
-        rule.selectors.forEach((selector: string) => {
-          // Extract class names from selectors
-          const classMatches = selector.match(/\.([a-zA-Z][a-zA-Z0-9_-]*)/g);
-          if (classMatches) {
-            classMatches.forEach(match => {
-              const className = match.substring(1); // Remove the dot
-              
-              if (className.startsWith('made-') || this.isUtilityClass(className)) {
-                classes.push(className);
-              }
-            });
+    this.collectThemeRules(ast).forEach(({ rule }) => {
+      const order = this.ruleCount++;
+      rule.selectors.forEach((selector: string) => {
+        // Extract class names from selectors
+        const classNames = new Set((selector.match(/\.([a-zA-Z][a-zA-Z0-9_-]*)/g) || []).map(match => match.substring(1)));
+        
+        classNames.forEach(className => {
+          if (!className.startsWith('made-') && !this.isUtilityClass(className)) return;
+          
+          const entry = this.classes.get(className) ?? this.addClass(className, rule, filePath);
+          if (!entry.selectors.includes(selector)) entry.selectors.push(selector);
+          
+          if (topLevel.has(rule) && selector.trim() === `.${className}`) {
+            entry.order = order;
+            (rule.declarations || [])
+              .filter((decl: any) => decl.type === 'declaration' && decl.property)
+              .forEach((decl: any) => { entry.declarations[decl.property] = decl.value; });
           }
         });
-      }
+      });
     });
-    
-    // Remove duplicates and sort
-    const newClasses = [...new Set(classes)].sort();
-    this.utilityClasses = [...this.utilityClasses, ...newClasses];
-    this.utilityClasses = [...new Set(this.utilityClasses)].sort();
   }
 
-  private walkAST(node: any, callback: (node: any) => void): void {
-    callback(node);
-    
-    // Handle the top-level stylesheet structure
-    if (node.stylesheet && node.stylesheet.rules) {
-      node.stylesheet.rules.forEach((child: any) => this.walkAST(child, callback));
+  // First rule a class appears in is its source
+  private addClass(className: string, rule: any, filePath: string): MADEClass {
+    const entry: MADEClass = { name: className, selectors: [], declarations: {} };
+    if (rule.position) {
+      entry.source = { path: filePath, startLine: rule.position.start.line, endLine: rule.position.end.line };
     }
     
-    if (node.rules) {
-      node.rules.forEach((child: any) => this.walkAST(child, callback));
-    }
-    if (node.declarations) {
-      node.declarations.forEach((child: any) => this.walkAST(child, callback));
-    }
+    this.classes.set(className, entry);
+    return entry;
   }
 
   private categorizeToken(tokenName: string): MADEToken['category'] {
@@ -264,12 +361,16 @@ export class CSSParser {
   }
 
   getUtilityClasses(): string[] {
-    return [...this.utilityClasses];
+    return [...this.classes.keys()].sort();
+  }
+
+  getClasses(): MADEClass[] {
+    return [...this.classes.values()].sort((a, b) => a.name.localeCompare(b.name));
   }
 
   // Helper method to validate if a CSS class is from MADE design system
   isMadeClass(className: string): boolean {
-    return this.utilityClasses.includes(className) || 
+    return this.classes.has(className) || 
            className.startsWith('made-') ||
            this.isUtilityClass(className);
   }
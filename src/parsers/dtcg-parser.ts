@@ -0,0 +1,229 @@
+import { MADEToken } from '../types.js';
+
+interface KeyRange {
+  startLine: number;
+  endLine: number;
+}
+
+// DTCG $type → token category; other types are categorized by name in CSSParser
+const TYPE_CATEGORIES: Record<string, MADEToken['category'] | undefined> = {
+  color: 'color',
+  gradient: 'color',
+  fontFamily: 'typography',
+  fontWeight: 'typography',
+  typography: 'typography',
+  shadow: 'shadow',
+  duration: 'time',
+  cubicBezier: 'time',
+  transition: 'time'
+};
+
+const ALIAS_PATTERN = /\{([^{}]+)\}/g;
+
+/**
+ * Parses W3C Design Tokens Community Group (DTCG) JSON: nested groups,
+ * `$value` / `$type` / `$description`, inherited group types, `{group.token}`
+ * aliases and composite values (shadow, typography, border, transition...).
+ * Aliases become `var()` references so they resolve like CSS tokens.
+ */
+export class DTCGParser {
+  /**
+   * True when any node in the document has a `$value`.
+   */
+  isDTCG(data: unknown): boolean {
+    if (!this.isObject(data)) return false;
+    if ('$value' in data) return true;
+    return Object.entries(data).some(([key, value]) => !key.startsWith('$') && this.isDTCG(value));
+  }
+
+  parse(data: Record<string, unknown>, filePath: string, content = ''): MADEToken[] {
+    const tokens: MADEToken[] = [];
+    const lines = this.indexKeyLines(content);
+
+    const walk = (node: Record<string, unknown>, path: string[], inheritedType?: string) => {
+      const type = typeof node.$type === 'string' ? node.$type : inheritedType;
+
+      if ('$value' in node) {
+        const name = DTCGParser.toTokenName(path);
+        const token: MADEToken = {
+          name,
+          value: this.toCSSValue(node.$value, type),
+          category: this.toCategory(type)
+        };
+        if (type) token.type = type;
+        if (typeof node.$description === 'string') token.description = node.$description;
+        if (node.$deprecated === true || typeof node.$deprecated === 'string') token.deprecated = node.$deprecated;
+
+        const range = lines.get(path.join('\u0000'));
+        token.source = range ? { path: filePath, ...range } : { path: filePath };
+        tokens.push(token);
+        return;
+      }
+
+      Object.entries(node).forEach(([key, child]) => {
+        if (key.startsWith('$') || !this.isObject(child)) return;
+        walk(child, [...path, key], type);
+      });
+    };
+
+    walk(data, []);
+    this.inheritAliasTypes(tokens);
+    return tokens;
+  }
+
+  /**
+   * Token path → CSS variable: ['color', 'blue', '500'] → '--made-color-blue-500'
+   */
+  static toTokenName(path: string[]): string {
+    const name = path
+      .map(segment => segment
+        .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+        .replace(/[^\w-]+/g, '-')
+        .toLowerCase())
+      .join('-')
+      .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '');
+
+    return name.startsWith('made-') ? `--${name}` : `--made-${name}`;
+  }
+
+  private toCategory(type?: string): MADEToken['category'] {
+    return (type && TYPE_CATEGORIES[type]) || 'other';
+  }
+
+  // Aliased tokens without a $type take the type of the token they point at
+  private inheritAliasTypes(tokens: MADEToken[]): void {
+    const byName = new Map(tokens.map(token => [token.name, token]));
+
+    tokens.forEach(token => {
+      const seen = new Set<string>();
+      let current: MADEToken | undefined = token;
+
+      while (current && !token.type && !seen.has(current.name)) {
+        seen.add(current.name);
+        const alias: RegExpMatchArray | null = current.value.match(/^var\((--[\w-]+)\)$/);
+        current = alias ? byName.get(alias[1]) : undefined;
+
+        if (current?.type) {
+          token.type = current.type;
+          token.category = this.toCategory(current.type);
+        }
+      }
+    });
+  }
+
+  private toCSSValue(value: unknown, type?: string): string {
+    if (typeof value === 'string') return this.replaceAliases(value);
+    if (typeof value === 'number') return String(value);
+
+    if (Array.isArray(value)) {
+      switch (type) {
+        case 'cubicBezier':
+          return `cubic-bezier(${value.map(point => this.toCSSValue(point)).join(', ')})`;
+        case 'fontFamily':
+          return this.toFontFamily(value);
+        case 'gradient':
+          return `linear-gradient(${value.map(stop => this.toGradientStop(stop)).join(', ')})`;
+        default:
+          // Layered shadows and other lists
+          return value.map(item => this.toCSSValue(item, type)).join(', ');
+      }
+    }
+
+    if (!this.isObject(value)) return '';
+
+    // Dimension and duration objects: { value: 4, unit: 'px' }
+    if ('value' in value && 'unit' in value) {
+      return `${this.toCSSValue(value.value)}${value.unit}`;
+    }
+
+    const part = (key: string) => key in value ? this.toCSSValue(value[key], key === 'fontFamily' ? 'fontFamily' : undefined) : '';
+    const join = (...parts: string[]) => parts.filter(Boolean).join(' ');
+
+    switch (type) {
+      case 'shadow':
+        return join(value.inset ? 'inset' : '', part('offsetX'), part('offsetY'), part('blur'), part('spread'), part('color'));
+      case 'typography': {
+        const size = part('lineHeight') ? `${part('fontSize')}/${part('lineHeight')}` : part('fontSize');
+        return join(part('fontStyle'), part('fontWeight'), size, part('fontFamily'));
+      }
+      case 'border':
+        return join(part('width'), part('style'), part('color'));
+      case 'transition':
+        return join(part('duration'), part('timingFunction'), part('delay'));
+      case 'strokeStyle':
+        return join(part('dashArray'), part('lineCap'));
+      default:
+        return JSON.stringify(value);
+    }
+  }
+
+  private toFontFamily(families: unknown[]): string {
+    return families
+      .map(family => this.toCSSValue(family))
+      .map(family => /\s/.test(family) && !/^['"]|^var\(/.test(family) ? `"${family}"` : family)
+      .join(', ');
+  }
+
+  private toGradientStop(stop: unknown): string {
+    if (!this.isObject(stop)) return this.toCSSValue(stop);
+
+    const color = this.toCSSValue(stop.color);
+    return typeof stop.position === 'number' ? `${color} ${Math.round(stop.position * 100)}%` : color;
+  }
+
+  private replaceAliases(value: string): string {
+    return value.replace(ALIAS_PATTERN, (_, path: string) => `var(${DTCGParser.toTokenName(path.split('.'))})`);
+  }
+
+  /**
+   * Line range of every object key, keyed by its path joined with NUL.
+   * JSON.parse drops positions, so the raw text is scanned once.
+   */
+  private indexKeyLines(content: string): Map<string, KeyRange> {
+    const ranges = new Map<string, KeyRange>();
+    const stack: Array<{ key?: string; startLine?: number }> = [];
+    let line = 1;
+    let pendingKey: string | undefined;
+    let pendingLine = 0;
+
+    for (let index = 0; index < content.length; index++) {
+      const char = content[index];
+
+      if (char === '\n') {
+        line++;
+      } else if (char === '"') {
+        let end = index + 1;
+        while (end < content.length && content[end] !== '"') {
+          end += content[end] === '\\' ? 2 : 1;
+        }
+        const text = content.slice(index + 1, end);
+        index = end;
+
+        let next = end + 1;
+        while (/\s/.test(content[next] ?? '')) next++;
+        if (content[next] === ':') {
+          pendingKey = text;
+          pendingLine = line;
+        }
+      } else if (char === '{' || char === '[') {
+        stack.push({ key: pendingKey, startLine: pendingKey !== undefined ? pendingLine : undefined });
+        pendingKey = undefined;
+      } else if (char === '}' || char === ']') {
+        const frame = stack.pop();
+        if (frame?.key !== undefined && frame.startLine !== undefined) {
+          const path = [...stack.map(parent => parent.key ?? ''), frame.key].slice(1).join('\u0000');
+          ranges.set(path, { startLine: frame.startLine, endLine: line });
+        }
+      } else if (char === ',') {
+        pendingKey = undefined;
+      }
+    }
+
+    return ranges;
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,226 @@
+import { ComponentDocs, ComponentDocsProp } from '../types.js';
+
+type SectionKind = 'overview' | 'usage' | 'accessibility' | 'dos' | 'donts' | 'dosAndDonts' | 'props';
+
+interface Section {
+  heading: string;
+  level: number;
+  lines: string[];
+}
+
+// Headings MADE docs use for each structured section
+const SECTION_HEADINGS: Array<{ kind: SectionKind; pattern: RegExp }> = [
+  { kind: 'dosAndDonts', pattern: /^do'?s?\s*(&|and|\/)\s*don'?t'?s?$/ },
+  { kind: 'donts', pattern: /^(don'?t'?s?|do not|avoid)$/ },
+  { kind: 'dos', pattern: /^(do'?s?|best practices)$/ },
+  { kind: 'overview', pattern: /^(overview|introduction|about|description)$/ },
+  { kind: 'usage', pattern: /^(usage|how to use|when to use|guidelines|usage guidelines)$/ },
+  { kind: 'accessibility', pattern: /^(accessibility|a11y)( notes| guidelines)?$/ },
+  { kind: 'props', pattern: /^(props|properties|api|arguments|args)$/ }
+];
+
+const DO_PREFIX = /^(✅|✔️?|👍|\*\*do\*\*:?|do:)\s*/i;
+const DONT_PREFIX = /^(❌|✖️?|🚫|👎|\*\*don'?t\*\*:?|don'?t:|avoid:)\s*/i;
+
+/**
+ * Splits Storybook MDX docs into the sections designers write (overview,
+ * usage, accessibility, do/don't and props tables). JSX blocks, imports and
+ * fenced code are skipped; examples are extracted separately.
+ */
+export class MDXDocsParser {
+  parse(content: string): ComponentDocs {
+    const docs: ComponentDocs = {};
+    const sections = this.splitSections(this.stripMDXSyntax(content));
+
+    sections.forEach((section, index) => {
+      const text = this.toText(section.lines);
+      const kind = this.classify(section.heading);
+
+      // The page title (or text before any heading) is the overview unless one is given
+      if (!kind && index === 0 && section.level <= 1) {
+        if (text && !docs.overview) docs.overview = text;
+        return;
+      }
+
+      switch (kind) {
+        case 'overview':
+          if (text) docs.overview = text;
+          break;
+        case 'usage':
+          if (text) docs.usage = text;
+          break;
+        case 'accessibility':
+          docs.accessibility = [...(docs.accessibility || []), ...this.toItems(section.lines)];
+          break;
+        case 'dos':
+          docs.dos = [...(docs.dos || []), ...this.toItems(section.lines).map(item => item.replace(DO_PREFIX, ''))];
+          break;
+        case 'donts':
+          docs.donts = [...(docs.donts || []), ...this.toItems(section.lines).map(item => item.replace(DONT_PREFIX, ''))];
+          break;
+        case 'dosAndDonts':
+          this.toItems(section.lines).forEach(item => {
+            if (DONT_PREFIX.test(item)) {
+              docs.donts = [...(docs.donts || []), item.replace(DONT_PREFIX, '')];
+            } else {
+              docs.dos = [...(docs.dos || []), item.replace(DO_PREFIX, '')];
+            }
+          });
+          break;
+        case 'props': {
+          const table = this.parsePropsTable(section.lines);
+          if (table.length > 0) docs.propsTable = [...(docs.propsTable || []), ...table];
+          break;
+        }
+        default:
+          if (text) docs.sections = { ...docs.sections, [section.heading]: text };
+      }
+    });
+
+    return docs;
+  }
+
+  private stripMDXSyntax(content: string): string[] {
+    const lines: string[] = [];
+    let inFence = false;
+    let jsxDepth = 0;
+
+    content.split('\n').forEach(line => {
+      const trimmed = line.trim();
+
+      if (trimmed.startsWith('```')) {
+        inFence = !inFence;
+        return;
+      }
+      if (inFence) return;
+
+      if (/^(import|export)\s/.test(trimmed)) return;
+
+      // Skip JSX blocks such as <Meta />, <Canvas>...</Canvas> and <Story>
+      if (jsxDepth > 0 || /^<[A-Z]/.test(trimmed)) {
+        const opened = (trimmed.match(/<[A-Z][\w.]*(\s[^>]*)?(?<!\/)>/g) || []).length;
+        const closed = (trimmed.match(/<\/[A-Z][\w.]*>/g) || []).length;
+        jsxDepth = Math.max(0, jsxDepth + opened - closed);
+        return;
+      }
+
+      // MDX comments
+      if (/^\{\/\*.*\*\/\}$/.test(trimmed)) return;
+
+      lines.push(line);
+    });
+
+    return lines;
+  }
+
+  private splitSections(lines: string[]): Section[] {
+    const sections: Section[] = [{ heading: '', level: 0, lines: [] }];
+
+    lines.forEach(line => {
+      const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+      if (heading) {
+        sections.push({ heading: heading[2].trim(), level: heading[1].length, lines: [] });
+      } else {
+        sections[sections.length - 1].lines.push(line);
+      }
+    });
+
+    // Drop the empty preamble, but keep page-title content in first position
+    return sections.filter((section, index) => index > 0 || this.toText(section.lines));
+  }
+
+  private classify(heading: string): SectionKind | undefined {
+    const normalized = heading
+      .toLowerCase()
+      .replace(/[’`]/g, "'")
+      .replace(/[^\w\s'&/]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return SECTION_HEADINGS.find(({ pattern }) => pattern.test(normalized))?.kind;
+  }
+
+  private toText(lines: string[]): string {
+    return lines
+      .filter(line => !this.isTableLine(line))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Bullet/numbered list items, or paragraphs when the section has no list.
+   */
+  private toItems(lines: string[]): string[] {
+    const items: string[] = [];
+    let current: string | null = null;
+
+    lines.forEach(line => {
+      const bullet = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/);
+      if (bullet) {
+        if (current) items.push(current);
+        current = bullet[1].trim();
+      } else if (current !== null && line.trim() && /^\s+/.test(line)) {
+        current += ' ' + line.trim();
+      } else if (current !== null) {
+        items.push(current);
+        current = null;
+      }
+    });
+    if (current) items.push(current);
+
+    if (items.length > 0) return items.filter(Boolean);
+
+    return this.toText(lines)
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+      .filter(Boolean);
+  }
+
+  private isTableLine(line: string): boolean {
+    return /^\s*\|.*\|\s*$/.test(line);
+  }
+
+  private parsePropsTable(lines: string[]): ComponentDocsProp[] {
+    const rows = lines
+      .filter(line => this.isTableLine(line))
+      .map(line => line.trim().replace(/^\||\|$/g, '').split(/(?<!\\)\|/).map(cell => this.cleanCell(cell)));
+
+    if (rows.length < 2) return [];
+
+    const header = rows[0].map(cell => cell.toLowerCase());
+    const column = (...names: string[]) => header.findIndex(cell => names.includes(cell));
+
+    const nameColumn = column('name', 'prop', 'property', 'arg', 'argument', 'attribute');
+    if (nameColumn === -1) return [];
+
+    const typeColumn = column('type', 'types');
+    const defaultColumn = column('default', 'default value', 'defaults');
+    const descriptionColumn = column('description', 'notes', 'details');
+    const requiredColumn = column('required');
+
+    return rows
+      .slice(1)
+      .filter(row => !row.every(cell => /^:?-+:?$/.test(cell) || cell === ''))
+      .map(row => {
+        const prop: ComponentDocsProp = { name: row[nameColumn] };
+        if (typeColumn !== -1 && row[typeColumn]) prop.type = row[typeColumn];
+        if (defaultColumn !== -1 && row[defaultColumn] && row[defaultColumn] !== '-') prop.default = row[defaultColumn];
+        if (descriptionColumn !== -1 && row[descriptionColumn]) prop.description = row[descriptionColumn];
+        if (requiredColumn !== -1 && row[requiredColumn]) {
+          prop.required = /^(yes|true|required|✓|✔️?)$/i.test(row[requiredColumn]);
+        }
+        return prop;
+      })
+      .filter(prop => prop.name);
+  }
+
+  private cleanCell(cell: string): string {
+    return cell
+      .trim()
+      .replace(/\\\|/g, '|')
+      .replace(/^`(.*)`$/, '$1')
+      .replace(/^\*\*(.*)\*\*$/, '$1')
+      .trim();
+  }
+}
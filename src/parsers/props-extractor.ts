@@ -0,0 +1,206 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import ts from 'typescript';
+import { ComponentProp } from '../types.js';
+import { StoryFileAST } from './story-ast.js';
+import { logger } from '../utils/logger.js';
+
+interface ComponentPropDoc {
+  type?: string;
+  description?: string;
+  default?: unknown;
+  required: boolean;
+}
+
+const COMPONENT_EXTENSIONS = ['', '.tsx', '.ts', '.jsx', '.js', '/index.tsx', '/index.ts', '/index.jsx', '/index.js'];
+
+/**
+ * Builds MADEComponent.props from a story's `argTypes`, meta `args` and the
+ * JSDoc of the component's props interface.
+ */
+export class PropsExtractor {
+  async extract(ast: StoryFileAST, storyFilePath: string): Promise<Record<string, ComponentProp>> {
+    const argTypes = this.asRecord(ast.evaluate(ast.getMetaProperty('argTypes')));
+    const args = this.asRecord(ast.evaluate(ast.getMetaProperty('args')));
+    const componentDocs = await this.readComponentDocs(ast, storyFilePath);
+
+    const names = new Set([...Object.keys(argTypes), ...Object.keys(args), ...Object.keys(componentDocs)]);
+    const props: Record<string, ComponentProp> = {};
+
+    names.forEach(name => {
+      const argType = this.asRecord(argTypes[name]);
+      const doc = componentDocs[name];
+
+      // Args hidden from the docs table are not part of the public API
+      if (argType.table && this.asRecord(argType.table).disable === true) return;
+
+      const options = Array.isArray(argType.options) ? argType.options : this.parseLiteralUnion(doc?.type);
+      const defaultValue = name in args ? args[name] : this.getArgTypeDefault(argType) ?? doc?.default;
+      const type = this.getArgTypeType(argType) ?? doc?.type ?? this.inferType(options, defaultValue);
+
+      const prop: ComponentProp = { type };
+
+      if (defaultValue !== undefined) prop.default = defaultValue;
+
+      const control = this.getControl(argType, type, options);
+      if (control) prop.control = control;
+      if (options && options.length > 0) prop.options = options;
+
+      const description = typeof argType.description === 'string' ? argType.description : doc?.description;
+      if (description) prop.description = description;
+      if (doc?.required) prop.required = true;
+
+      props[name] = prop;
+    });
+
+    return props;
+  }
+
+  private getArgTypeType(argType: Record<string, unknown>): string | undefined {
+    const summary = this.asRecord(this.asRecord(argType.table).type).summary;
+    if (typeof summary === 'string') return summary;
+
+    if (typeof argType.type === 'string') return argType.type;
+
+    const typeName = this.asRecord(argType.type).name;
+    if (typeof typeName === 'string' && typeName !== 'enum' && typeName !== 'other') return typeName;
+
+    if (Array.isArray(argType.options)) {
+      return this.inferType(argType.options, undefined);
+    }
+    return undefined;
+  }
+
+  private getArgTypeDefault(argType: Record<string, unknown>): unknown {
+    if (argType.defaultValue !== undefined) return argType.defaultValue;
+
+    const summary = this.asRecord(this.asRecord(argType.table).defaultValue).summary;
+    if (typeof summary !== 'string') return undefined;
+
+    // Table summaries are source text: 'primary', true, 12
+    try {
+      return JSON.parse(summary.replace(/^'(.*)'$/, '"$1"'));
+    } catch {
+      return summary;
+    }
+  }
+
+  private getControl(argType: Record<string, unknown>, type: string, options: unknown[] | undefined): string | undefined {
+    if (argType.control === false) return undefined;
+    if (typeof argType.control === 'string') return argType.control;
+
+    const controlType = this.asRecord(argType.control).type;
+    if (typeof controlType === 'string') return controlType;
+
+    // Same inference Storybook applies when no control is configured
+    if (options && options.length > 0) return 'select';
+    if (type === 'boolean') return 'boolean';
+    if (type === 'number') return 'number';
+    if (type === 'string') return 'text';
+    if (type.startsWith('{') || type.startsWith('Record')) return 'object';
+    return undefined;
+  }
+
+  private inferType(options: unknown[] | undefined, value: unknown): string {
+    if (options && options.length > 0) {
+      return [...new Set(options.map(option => JSON.stringify(option).replace(/^"(.*)"$/, "'$1'")))].join(' | ');
+    }
+    if (value === undefined || value === null) return 'unknown';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+
+  private parseLiteralUnion(type: string | undefined): unknown[] | undefined {
+    if (!type || !type.includes('|')) return undefined;
+
+    const members = type.split('|').map(member => member.trim());
+    const literals = members.map(member => {
+      const match = member.match(/^['"](.*)['"]$/);
+      if (match) return match[1];
+      if (/^-?\d+(\.\d+)?$/.test(member)) return Number(member);
+      return undefined;
+    });
+
+    return literals.every(literal => literal !== undefined) ? literals : undefined;
+  }
+
+  private async readComponentDocs(ast: StoryFileAST, storyFilePath: string): Promise<Record<string, ComponentPropDoc>> {
+    const component = ast.resolveExpression(ast.getMetaProperty('component'));
+    if (!component || !ts.isIdentifier(component)) return {};
+
+    const componentName = component.text;
+    const importSource = ast.getImportSource(componentName);
+    if (!importSource || !importSource.startsWith('.')) return {};
+
+    const basePath = path.resolve(path.dirname(storyFilePath), importSource);
+    for (const extension of COMPONENT_EXTENSIONS) {
+      const candidate = basePath + extension;
+      if (!await fs.pathExists(candidate) || (await fs.stat(candidate)).isDirectory()) continue;
+
+      try {
+        const content = await fs.readFile(candidate, 'utf-8');
+        return this.extractPropDocs(new StoryFileAST(content, candidate).sourceFile, componentName);
+      } catch (error) {
+        logger.debug(`Could not read component props from ${candidate}:`, error instanceof Error ? error.message : error);
+        return {};
+      }
+    }
+
+    return {};
+  }
+
+  private extractPropDocs(sourceFile: ts.SourceFile, componentName: string): Record<string, ComponentPropDoc> {
+    const candidates: Array<{ name: string; members: ts.NodeArray<ts.TypeElement> }> = [];
+
+    sourceFile.statements.forEach(statement => {
+      if (ts.isInterfaceDeclaration(statement)) {
+        candidates.push({ name: statement.name.text, members: statement.members });
+      } else if (ts.isTypeAliasDeclaration(statement) && ts.isTypeLiteralNode(statement.type)) {
+        candidates.push({ name: statement.name.text, members: statement.type.members });
+      }
+    });
+
+    const propsType = candidates.find(candidate => candidate.name === `${componentName}Props`)
+      || candidates.find(candidate => candidate.name.endsWith('Props'));
+    if (!propsType) return {};
+
+    const docs: Record<string, ComponentPropDoc> = {};
+    propsType.members.forEach(member => {
+      if (!ts.isPropertySignature(member) || !member.name) return;
+
+      const name = ts.isIdentifier(member.name) || ts.isStringLiteral(member.name) ? member.name.text : undefined;
+      if (!name) return;
+
+      const doc: ComponentPropDoc = {
+        type: member.type?.getText(sourceFile).replace(/\s+/g, ' '),
+        required: !member.questionToken
+      };
+
+      const description = ts.getJSDocCommentsAndTags(member)
+        .filter(ts.isJSDoc)
+        .map(jsDoc => ts.getTextOfJSDocComment(jsDoc.comment))
+        .filter(Boolean)
+        .join('\n')
+        .trim();
+      if (description) doc.description = description;
+
+      const defaultTag = ts.getJSDocTags(member).find(tag => tag.tagName.text === 'default' || tag.tagName.text === 'defaultValue');
+      const defaultText = defaultTag ? ts.getTextOfJSDocComment(defaultTag.comment)?.trim() : undefined;
+      if (defaultText) {
+        try {
+          doc.default = JSON.parse(defaultText.replace(/^'(.*)'$/, '"$1"'));
+        } catch {
+          doc.default = defaultText;
+        }
+      }
+
+      docs[name] = doc;
+    });
+
+    return docs;
+  }
+
+  private asRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  }
+}
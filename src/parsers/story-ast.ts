@@ -0,0 +1,323 @@
+import ts from 'typescript';
+
+/**
+ * TypeScript AST view of a Storybook story file (CSF). Resolves the default
+ * export (meta) through identifiers and `satisfies`/`as` wrappers and
+ * evaluates static literals such as `args` and `argTypes`.
+ */
+export type FunctionLike = ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration | ts.MethodDeclaration;
+
+export class StoryFileAST {
+  readonly sourceFile: ts.SourceFile;
+  private declarations = new Map<string, ts.Expression>();
+  private functions = new Map<string, ts.FunctionDeclaration>();
+  private imports = new Map<string, string>();
+  private exportedNames: Array<{ name: string; node: ts.Identifier }> = [];
+  // CSF2-style annotations such as `Primary.args = {...}`
+  private assignments = new Map<string, Map<string, ts.Expression>>();
+
+  constructor(content: string, fileName: string) {
+    this.sourceFile = ts.createSourceFile(
+      fileName,
+      content,
+      ts.ScriptTarget.Latest,
+      true,
+      this.getScriptKind(fileName)
+    );
+    this.collectTopLevel();
+  }
+
+  getMeta(): ts.ObjectLiteralExpression | null {
+    for (const statement of this.sourceFile.statements) {
+      if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+        const resolved = this.resolveExpression(statement.expression);
+        return resolved && ts.isObjectLiteralExpression(resolved) ? resolved : null;
+      }
+    }
+    return null;
+  }
+
+  getMetaProperty(name: string): ts.Expression | undefined {
+    const meta = this.getMeta();
+    return meta ? this.getProperty(meta, name) : undefined;
+  }
+
+  /**
+   * Named `const` exports in source order, i.e. the candidate stories. The
+   * node is the declared identifier so annotations assigned later resolve.
+   */
+  getNamedExports(): Array<{ name: string; node: ts.Identifier }> {
+    return [...this.exportedNames];
+  }
+
+  /**
+   * Looks up a story or meta annotation (`args`, `render`, `name`...) on an
+   * object literal, following spreads of other stories and CSF2-style
+   * `Story.args = {...}` assignments. Later properties win, as at runtime.
+   */
+  getAnnotation(node: ts.Expression | undefined, name: string, depth = 0): ts.Expression | ts.MethodDeclaration | undefined {
+    if (!node || depth > 10) return undefined;
+
+    const unwrapped = this.unwrap(node);
+    if (ts.isIdentifier(unwrapped)) {
+      const assigned = this.assignments.get(unwrapped.text)?.get(name);
+      if (assigned) return assigned;
+    }
+
+    const resolved = this.resolveExpression(unwrapped);
+    if (!resolved || !ts.isObjectLiteralExpression(resolved)) return undefined;
+
+    for (let i = resolved.properties.length - 1; i >= 0; i--) {
+      const property = resolved.properties[i];
+
+      if (ts.isSpreadAssignment(property)) {
+        const spread = this.getAnnotation(property.expression, name, depth + 1);
+        if (spread) return spread;
+        continue;
+      }
+      if (this.getPropertyName(property) !== name) continue;
+
+      if (ts.isPropertyAssignment(property)) return property.initializer;
+      if (ts.isShorthandPropertyAssignment(property)) return property.name;
+      if (ts.isMethodDeclaration(property)) return property;
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolves an expression to the function it refers to, including
+   * `Template.bind({})` and top-level function declarations.
+   */
+  resolveFunction(node: ts.Expression | ts.MethodDeclaration | undefined, depth = 0): FunctionLike | undefined {
+    if (!node || depth > 10) return undefined;
+    if (ts.isMethodDeclaration(node)) return node;
+
+    const unwrapped = this.unwrap(node);
+    if (ts.isIdentifier(unwrapped) && this.functions.has(unwrapped.text)) {
+      return this.functions.get(unwrapped.text);
+    }
+
+    const resolved = this.resolveExpression(unwrapped);
+    if (!resolved) return undefined;
+
+    if (ts.isArrowFunction(resolved) || ts.isFunctionExpression(resolved)) {
+      return resolved;
+    }
+    if (
+      ts.isCallExpression(resolved) &&
+      ts.isPropertyAccessExpression(resolved.expression) &&
+      resolved.expression.name.text === 'bind'
+    ) {
+      return this.resolveFunction(resolved.expression.expression, depth + 1);
+    }
+    if (ts.isIdentifier(resolved) && this.functions.has(resolved.text)) {
+      return this.functions.get(resolved.text);
+    }
+    return undefined;
+  }
+
+  getProperty(object: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+    for (const property of object.properties) {
+      if (this.getPropertyName(property) !== name) continue;
+
+      if (ts.isPropertyAssignment(property)) {
+        return property.initializer;
+      }
+      if (ts.isShorthandPropertyAssignment(property)) {
+        return property.name;
+      }
+    }
+    return undefined;
+  }
+
+  getPropertyName(property: ts.ObjectLiteralElementLike): string | undefined {
+    if (!property.name) return undefined;
+    if (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) || ts.isNumericLiteral(property.name)) {
+      return property.name.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * Strips `satisfies`, `as`, parentheses and non-null assertions and follows
+   * identifiers to their top-level `const` initializer.
+   */
+  resolveExpression(node: ts.Expression | undefined, depth = 0): ts.Expression | undefined {
+    if (!node || depth > 10) return node;
+
+    const unwrapped = this.unwrap(node);
+    if (ts.isIdentifier(unwrapped) && this.declarations.has(unwrapped.text)) {
+      return this.resolveExpression(this.declarations.get(unwrapped.text), depth + 1);
+    }
+    return unwrapped;
+  }
+
+  unwrap(node: ts.Expression): ts.Expression {
+    let current = node;
+    while (
+      ts.isSatisfiesExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isParenthesizedExpression(current) ||
+      ts.isNonNullExpression(current) ||
+      ts.isTypeAssertionExpression(current)
+    ) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  /**
+   * Evaluates a static expression (literals, arrays, objects, spreads of
+   * other static objects). Returns undefined for anything dynamic.
+   */
+  evaluate(node: ts.Expression | undefined): unknown {
+    const resolved = this.resolveExpression(node);
+    if (!resolved) return undefined;
+
+    if (ts.isStringLiteral(resolved) || ts.isNoSubstitutionTemplateLiteral(resolved)) {
+      return resolved.text;
+    }
+    if (ts.isNumericLiteral(resolved)) {
+      return Number(resolved.text);
+    }
+    if (ts.isPrefixUnaryExpression(resolved) && resolved.operator === ts.SyntaxKind.MinusToken) {
+      const value = this.evaluate(resolved.operand);
+      return typeof value === 'number' ? -value : undefined;
+    }
+    if (ts.isPropertyAccessExpression(resolved)) {
+      const annotation = this.getAnnotation(resolved.expression, resolved.name.text);
+      return annotation && !ts.isMethodDeclaration(annotation) ? this.evaluate(annotation) : undefined;
+    }
+
+    switch (resolved.kind) {
+      case ts.SyntaxKind.TrueKeyword:
+        return true;
+      case ts.SyntaxKind.FalseKeyword:
+        return false;
+      case ts.SyntaxKind.NullKeyword:
+        return null;
+    }
+
+    if (ts.isArrayLiteralExpression(resolved)) {
+      return resolved.elements
+        .flatMap(element => ts.isSpreadElement(element)
+          ? (this.evaluate(element.expression) as unknown[] | undefined) ?? []
+          : [this.evaluate(element)])
+        .filter(value => value !== undefined);
+    }
+
+    if (ts.isObjectLiteralExpression(resolved)) {
+      const result: Record<string, unknown> = {};
+      for (const property of resolved.properties) {
+        if (ts.isSpreadAssignment(property)) {
+          const spread = this.evaluate(property.expression);
+          if (spread && typeof spread === 'object') {
+            Object.assign(result, spread);
+          }
+          continue;
+        }
+
+        const name = this.getPropertyName(property);
+        if (!name) continue;
+
+        const value = this.evaluate(this.getProperty(resolved, name));
+        if (value !== undefined) {
+          result[name] = value;
+        }
+      }
+      return result;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 1-based line range of a node, widened to its whole statement.
+   */
+  getLineRange(node: ts.Node): { startLine: number; endLine: number } {
+    let statement: ts.Node = node;
+    while (statement.parent && !ts.isSourceFile(statement.parent)) {
+      statement = statement.parent;
+    }
+
+    return {
+      startLine: this.sourceFile.getLineAndCharacterOfPosition(statement.getStart(this.sourceFile)).line + 1,
+      endLine: this.sourceFile.getLineAndCharacterOfPosition(statement.getEnd()).line + 1
+    };
+  }
+
+  /**
+   * Line range of a top-level declaration including later
+   * `Name.args = {...}` assignments.
+   */
+  getDeclarationRange(name: string): { startLine: number; endLine: number } | undefined {
+    const declaration = this.declarations.get(name);
+    if (!declaration) return undefined;
+
+    const range = this.getLineRange(declaration);
+    this.assignments.get(name)?.forEach(expression => {
+      range.endLine = Math.max(range.endLine, this.getLineRange(expression).endLine);
+    });
+    return range;
+  }
+
+  getImportSource(localName: string): string | undefined {
+    return this.imports.get(localName);
+  }
+
+  private collectTopLevel(): void {
+    for (const statement of this.sourceFile.statements) {
+      if (ts.isVariableStatement(statement)) {
+        const exported = statement.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+            this.declarations.set(declaration.name.text, declaration.initializer);
+            if (exported) this.exportedNames.push({ name: declaration.name.text, node: declaration.name });
+          }
+        }
+      }
+
+      if (ts.isFunctionDeclaration(statement) && statement.name) {
+        this.functions.set(statement.name.text, statement);
+      }
+
+      if (
+        ts.isExpressionStatement(statement) &&
+        ts.isBinaryExpression(statement.expression) &&
+        statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+        ts.isPropertyAccessExpression(statement.expression.left) &&
+        ts.isIdentifier(statement.expression.left.expression)
+      ) {
+        const target = statement.expression.left.expression.text;
+        if (!this.assignments.has(target)) this.assignments.set(target, new Map());
+        this.assignments.get(target)!.set(statement.expression.left.name.text, statement.expression.right);
+      }
+
+      if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+        const source = statement.moduleSpecifier.text;
+        const clause = statement.importClause;
+        if (!clause) continue;
+
+        if (clause.name) {
+          this.imports.set(clause.name.text, source);
+        }
+        if (clause.namedBindings) {
+          if (ts.isNamespaceImport(clause.namedBindings)) {
+            this.imports.set(clause.namedBindings.name.text, source);
+          } else {
+            clause.namedBindings.elements.forEach(element => {
+              this.imports.set(element.name.text, source);
+            });
+          }
+        }
+      }
+    }
+  }
+
+  private getScriptKind(fileName: string): ts.ScriptKind {
+    if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+    if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+    if (fileName.endsWith('.js') || fileName.endsWith('.mjs')) return ts.ScriptKind.JS;
+    return ts.ScriptKind.TS;
+  }
+}
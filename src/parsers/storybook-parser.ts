@@ -2,12 +2,31 @@ import fs from 'fs-extra';
 import * as path from 'path';
 import * as glob from 'glob';
 import { load } from 'cheerio';
-import { MADEComponent, ComponentExample } from '../types.js';
+import { MADEComponent, ComponentExample, ComponentDocs, ComponentProp, SourceLocation } from '../types.js';
+import { StoryFileAST } from './story-ast.js';
+import { PropsExtractor } from './props-extractor.js';
+import { CSFStoryExtractor } from './csf-stories.js';
+import { MDXDocsParser } from './mdx-docs.js';
 import { logger } from '../utils/logger.js';
 
+const DEFAULT_DESCRIPTION = 'A reusable component from the MADE design system';
+
+// A component as documented by a single story or MDX file, before merging
+interface ParsedComponent {
+  component: MADEComponent;
+  title?: string;
+  isDocs: boolean;
+  // Storybook 7+ docs page (plain .mdx): only adds to the component it documents
+  isDocsPage?: boolean;
+}
+
 export class StorybookParser {
   private components: MADEComponent[] = [];
+  private parsed: ParsedComponent[] = [];
   private storybookRoot: string;
+  private propsExtractor = new PropsExtractor();
+  private storyExtractor = new CSFStoryExtractor();
+  private mdxDocsParser = new MDXDocsParser();
 
   constructor(storybookRoot: string) {
     this.storybookRoot = storybookRoot;
@@ -22,6 +41,7 @@ export class StorybookParser {
       logger.info(`Found ${storyFiles.length} story files`);
       
       // Parse each story file
+      this.parsed = [];
       for (const storyFile of storyFiles) {
         try {
           await this.parseStoryFile(storyFile);
@@ -30,6 +50,9 @@ export class StorybookParser {
         }
       }
       
+      // Stories and docs pages of the same component become one entry
+      this.components = this.mergeComponents(this.parsed);
+      
       logger.info(`Successfully parsed ${this.components.length} components from stories`);
     } catch (error) {
       logger.error('Failed to parse Storybook stories:', error);
@@ -40,7 +63,9 @@ export class StorybookParser {
   private async findStoryFiles(): Promise<string[]> {
     const patterns = [
       path.join(this.storybookRoot, '**/*.stories.{js,ts,jsx,tsx,mdx}'),
-      path.join(this.storybookRoot, '**/*.story.{js,ts,jsx,tsx,mdx}')
+      path.join(this.storybookRoot, '**/*.story.{js,ts,jsx,tsx,mdx}'),
+      // Storybook 7+ docs pages are plain .mdx files
+      path.join(this.storybookRoot, '**/*.mdx')
     ];
     
     const files: string[] = [];
@@ -58,65 +83,258 @@ export class StorybookParser {
     
     // Determine if it's an MDX file or JS/TS
     if (filePath.endsWith('.mdx')) {
-      await this.parseMDXStory(content, relativePath);
+      await this.parseMDXStory(content, relativePath, filePath, !/\.(stories|story)\.mdx$/.test(filePath));
     } else {
-      await this.parseJSStory(content, relativePath);
+      await this.parseJSStory(content, relativePath, filePath);
     }
   }
 
-  private async parseMDXStory(content: string, sourcePath: string): Promise<void> {
+  private async parseMDXStory(content: string, sourcePath: string, filePath: string, isDocsPage: boolean): Promise<void> {
+    const title = await this.extractMDXTitle(content, filePath);
+    
+    // Docs pages without a <Meta of> or <Meta title> (introductions, guidelines) document no component
+    if (isDocsPage && !title) {
+      logger.debug(`Skipping MDX page ${sourcePath}: no <Meta> linking it to a component`);
+      return;
+    }
+    
     // Extract component name from file path or Meta title
-    const componentName = this.extractComponentName(content, sourcePath);
+    const componentName = title?.split('/').pop() || this.extractComponentName(content, sourcePath);
     
     // Parse MDX content to find code blocks and examples
     const examples = this.extractMDXExamples(content, sourcePath);
+    const docs = this.mdxDocsParser.parse(content);
+    const hasDocs = Object.keys(docs).length > 0;
     
-    if (componentName && examples.length > 0) {
+    // Docs-only pages are kept so they can be merged into their component's stories
+    if (componentName && (examples.length > 0 || hasDocs)) {
       const component: MADEComponent = {
+        id: this.toComponentId(title || componentName),
         name: componentName,
-        description: this.extractDescription(content),
+        ...this.getTaxonomy(title),
+        description: docs.overview?.split(/\n\s*\n/)[0] || this.extractDescription(content),
         tags: this.extractTags(content, sourcePath),
         variants: this.extractVariants(content, examples),
-        props: this.extractProps(content),
-        a11yNotes: this.extractAccessibilityNotes(content),
+        props: this.docsPropsToComponentProps(docs),
+        a11yNotes: [...this.extractAccessibilityNotes(content), ...(docs.accessibility || [])],
         htmlScaffold: this.generateHtmlScaffold(examples),
         cssClasses: this.extractCssClasses(examples),
         cssVarsUsed: this.extractCssVariables(examples),
-        examples
+        examples,
+        sources: [this.fileSource(content, sourcePath)]
       };
       
-      this.components.push(component);
+      if (hasDocs) {
+        component.docs = docs;
+      }
+      
+      this.parsed.push({ component, title, isDocs: true, isDocsPage });
     }
   }
 
-  private async parseJSStory(content: string, sourcePath: string): Promise<void> {
+  private async parseJSStory(content: string, sourcePath: string, filePath: string): Promise<void> {
     // Extract component name from default export or file name
     const componentName = this.extractComponentNameFromJS(content, sourcePath);
     
     // Parse story exports to find examples
-    const examples = this.extractJSExamples(content, sourcePath);
+    const ast = new StoryFileAST(content, filePath);
+    const examples = this.extractJSExamples(ast, sourcePath);
     
     if (componentName && examples.length > 0) {
+      const title = this.getStoryTitle(ast);
+      
       const component: MADEComponent = {
+        id: this.toComponentId(title || componentName),
         name: componentName,
+        ...this.getTaxonomy(title),
         description: this.extractJSDescription(content),
         tags: this.extractTags(content, sourcePath),
         variants: this.extractVariants(content, examples),
-        props: this.extractJSProps(content),
+        props: await this.propsExtractor.extract(ast, filePath),
         a11yNotes: this.extractAccessibilityNotes(content),
         htmlScaffold: this.generateHtmlScaffold(examples),
         cssClasses: this.extractCssClasses(examples),
         cssVarsUsed: this.extractCssVariables(examples),
-        examples
+        examples,
+        sources: [this.fileSource(content, sourcePath)]
       };
       
-      this.components.push(component);
+      this.parsed.push({ component, title, isDocs: false });
+    }
+  }
+
+  private fileSource(content: string, sourcePath: string): SourceLocation {
+    return { path: sourcePath, startLine: 1, endLine: content.split('\n').length };
+  }
+
+  private rangeSource(content: string, sourcePath: string, start: number, end: number): SourceLocation {
+    const lineAt = (offset: number) => content.slice(0, offset).split('\n').length;
+    return { path: sourcePath, startLine: lineAt(start), endLine: lineAt(end) };
+  }
+
+  private getStoryTitle(ast: StoryFileAST): string | undefined {
+    const title = ast.evaluate(ast.getMetaProperty('title'));
+    return typeof title === 'string' ? title : undefined;
+  }
+
+  /**
+   * Title of an MDX docs page: `<Meta title="..." />`, or the title of the
+   * stories file referenced by `<Meta of={ButtonStories} />`.
+   */
+  private async extractMDXTitle(content: string, filePath: string): Promise<string | undefined> {
+    const titleMatch = content.match(/<Meta\b[^>]*\btitle=\{?\s*['"]([^'"]+)['"]/);
+    if (titleMatch) {
+      return titleMatch[1];
+    }
+    
+    const ofMatch = content.match(/<Meta\b[^>]*\bof=\{\s*(\w+)\s*\}/);
+    if (!ofMatch) return undefined;
+    
+    const importMatch = content.match(new RegExp(`import\\s+(?:\\*\\s+as\\s+)?${ofMatch[1]}\\s+from\\s+['"]([^'"]+)['"]`));
+    if (!importMatch || !importMatch[1].startsWith('.')) return undefined;
+    
+    const basePath = path.resolve(path.dirname(filePath), importMatch[1]);
+    for (const extension of ['', '.ts', '.tsx', '.js', '.jsx']) {
+      const candidate = basePath + extension;
+      if (await fs.pathExists(candidate) && (await fs.stat(candidate)).isFile()) {
+        const storyContent = await fs.readFile(candidate, 'utf-8');
+        return this.getStoryTitle(new StoryFileAST(storyContent, candidate));
+      }
+    }
+    
+    return undefined;
+  }
+
+  private getTaxonomy(title: string | undefined): Pick<MADEComponent, 'category' | 'path'> {
+    if (!title) return {};
+    
+    const segments = title.split('/').map(segment => segment.trim()).filter(Boolean);
+    return segments.length > 1
+      ? { category: segments.slice(0, -1).join('/'), path: segments }
+      : { path: segments };
+  }
+
+  /**
+   * Storybook-style id for a title path: 'Components/Forms/Input' → 'components-forms-input'
+   */
+  private toComponentId(title: string): string {
+    return title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
+  private mergeComponents(parsed: ParsedComponent[]): MADEComponent[] {
+    const groups = new Map<string, ParsedComponent[]>();
+    
+    // Titled entries define the canonical ids
+    parsed.filter(entry => entry.title).forEach(entry => {
+      const id = entry.component.id!;
+      groups.set(id, [...(groups.get(id) || []), entry]);
+    });
+    
+    // Untitled entries join a titled component of the same name when there is one
+    parsed.filter(entry => !entry.title).forEach(entry => {
+      const match = [...groups.entries()].find(([, entries]) =>
+        entries[0].component.name.toLowerCase() === entry.component.name.toLowerCase()
+      );
+      const id = match ? match[0] : entry.component.id!;
+      groups.set(id, [...(groups.get(id) || []), entry]);
+    });
+    
+    const components: MADEComponent[] = [];
+    
+    groups.forEach((entries, id) => {
+      if (entries.every(entry => entry.isDocsPage)) {
+        logger.debug(`Skipping MDX page ${entries[0].component.sources?.[0]?.path}: no stories for ${entries[0].title}`);
+        return;
+      }
+      
+      // Stories come first so their examples drive the scaffold
+      const ordered = [...entries.filter(entry => !entry.isDocs), ...entries.filter(entry => entry.isDocs)];
+      const merged: MADEComponent = { ...ordered[0].component, id };
+      
+      ordered.slice(1).forEach(entry => this.mergeInto(merged, entry));
+      
+      if (merged.examples.length === 0) {
+        logger.debug(`Skipping component ${merged.name}: no examples in ${merged.sources?.map(location => location.path).join(', ')}`);
+        return;
+      }
+      
+      merged.htmlScaffold = this.generateHtmlScaffold(merged.examples);
+      merged.cssClasses = this.extractCssClasses(merged.examples);
+      merged.cssVarsUsed = this.extractCssVariables(merged.examples);
+      components.push(merged);
+    });
+    
+    return components;
+  }
+
+  private mergeInto(target: MADEComponent, entry: ParsedComponent): void {
+    const source = entry.component;
+    
+    const seen = new Set(target.examples.map(example => `${example.title}\n${example.html}`));
+    target.examples = [
+      ...target.examples,
+      ...source.examples.filter(example => !seen.has(`${example.title}\n${example.html}`))
+    ];
+    
+    const variants: Record<string, string[]> = { ...target.variants };
+    Object.entries(source.variants).forEach(([key, values]) => {
+      variants[key] = [...new Set([...(variants[key] || []), ...values])];
+    });
+    target.variants = variants;
+    
+    // Props from stories win; docs tables fill in what stories don't declare
+    target.props = { ...source.props, ...target.props };
+    target.tags = [...new Set([...target.tags, ...source.tags])];
+    target.a11yNotes = [...new Set([...(target.a11yNotes || []), ...(source.a11yNotes || [])])];
+    const sourcePaths = new Set((target.sources || []).map(location => location.path));
+    target.sources = [
+      ...(target.sources || []),
+      ...(source.sources || []).filter(location => !sourcePaths.has(location.path))
+    ];
+    target.category = target.category || source.category;
+    target.path = target.path || source.path;
+    
+    if (source.docs) {
+      target.docs = this.mergeDocs(target.docs, source.docs);
     }
+    
+    // Prefer the guidance designers wrote over generated descriptions
+    if ((entry.isDocs && source.docs?.overview) || !target.description || target.description === DEFAULT_DESCRIPTION) {
+      target.description = source.description || target.description;
+    }
+  }
+
+  private mergeDocs(target: ComponentDocs | undefined, source: ComponentDocs): ComponentDocs {
+    if (!target) return source;
+    
+    const unique = (a?: string[], b?: string[]) => (a || b) ? [...new Set([...(a || []), ...(b || [])])] : undefined;
+    const propNames = new Set((target.propsTable || []).map(prop => prop.name));
+    
+    const docs: ComponentDocs = {
+      overview: target.overview || source.overview,
+      usage: target.usage || source.usage,
+      accessibility: unique(target.accessibility, source.accessibility),
+      dos: unique(target.dos, source.dos),
+      donts: unique(target.donts, source.donts),
+      propsTable: (target.propsTable || source.propsTable)
+        ? [...(target.propsTable || []), ...(source.propsTable || []).filter(prop => !propNames.has(prop.name))]
+        : undefined,
+      sections: (target.sections || source.sections) ? { ...source.sections, ...target.sections } : undefined
+    };
+    
+    // Drop fields neither page defines
+    Object.keys(docs).forEach(key => {
+      if (docs[key as keyof ComponentDocs] === undefined) delete docs[key as keyof ComponentDocs];
+    });
+    return docs;
   }
 
   private extractComponentName(content: string, sourcePath: string): string {
     // Try to extract from Meta title
-    const metaTitleMatch = content.match(/title:\\s*['"]([^'"]+)['"]/);
+    const metaTitleMatch = content.match(/title[:=]\s*\{?\s*['"]([^'"]+)['"]/);
     if (metaTitleMatch) {
       return metaTitleMatch[1].split('/').pop() || '';
     }
@@ -152,7 +370,7 @@ export class StorybookParser {
     const examples: ComponentExample[] = [];
     
     // Extract code blocks that contain HTML
-    const codeBlockRegex = /```(?:html|jsx?|tsx?)\\n([\\s\\S]*?)\\n```/g;
+    const codeBlockRegex = /```(?:html|jsx?|tsx?)\n([\s\S]*?)\n```/g;
     let match;
     let index = 0;
     
@@ -164,7 +382,8 @@ export class StorybookParser {
           examples.push({
             title: `Example ${index + 1}`,
             html,
-            description: this.findNearbyDescription(content, match.index)
+            description: this.findNearbyDescription(content, match.index),
+            source: this.rangeSource(content, sourcePath, match.index, match.index + match[0].length)
           });
           index++;
         }
@@ -181,7 +400,8 @@ export class StorybookParser {
           examples.push({
             title: `Story Example ${examples.length + 1}`,
             html,
-            description: 'From Storybook Story component'
+            description: 'From Storybook Story component',
+            source: this.rangeSource(content, sourcePath, match.index, match.index + match[0].length)
           });
         }
       }
@@ -190,33 +410,28 @@ export class StorybookParser {
     return examples;
   }
 
-  private extractJSExamples(content: string, sourcePath: string): ComponentExample[] {
+  private extractJSExamples(ast: StoryFileAST, sourcePath: string): ComponentExample[] {
     const examples: ComponentExample[] = [];
     
-    // Extract story functions and their templates - handle nested braces properly
-    const storyRegex = /export const (\w+):\s*Story\s*=\s*\{([\s\S]*?)\n\};/g;
-    let match;
-    
-    while ((match = storyRegex.exec(content)) !== null) {
-      const storyName = match[1];
-      const storyContent = match[2];
+    this.storyExtractor.extract(ast).forEach(story => {
+      if (!story.template) return;
       
-      // Look for render function with template literal (handle escaped backticks)
-      const renderMatch = storyContent.match(/render:\s*\([^)]*\)\s*=>\s*\\?`([^`]+)\\?`/s);
-      if (renderMatch) {
-        const template = renderMatch[1].trim();
-        const html = this.convertTemplateToHTML(template);
-        
-        if (html) {
-          examples.push({
-            title: this.humanizeStoryName(storyName),
-            html,
-            description: `${storyName} story variant`,
-            props: this.extractStoryArgs(storyContent)
-          });
-        }
+      const html = this.looksLikeJSX(story.template)
+        ? this.jsxToHTML(story.template)
+        : this.convertTemplateToHTML(story.template);
+      
+      if (html) {
+        examples.push({
+          title: story.name || this.humanizeStoryName(story.exportName),
+          html,
+          description: story.description || `${story.exportName} story variant`,
+          props: story.args,
+          source: story.startLine
+            ? { path: sourcePath, startLine: story.startLine, endLine: story.endLine }
+            : { path: sourcePath }
+        });
       }
-    }
+    });
     
     return examples;
   }
@@ -249,21 +464,11 @@ export class StorybookParser {
   }
 
   private convertTemplateToHTML(template: string): string | null {
+    // Interpolations were already evaluated against the story's args
+    if (!template.trim()) return null;
+    
     try {
-      // Remove template literal variable interpolations for now
-      // Replace ${...} with placeholder text
-      let html = template.replace(/\\\$\{[^}]+\}/g, (match) => {
-        if (match.includes('children')) {
-          return 'Button Text';
-        }
-        return match;
-      });
-      
-      // Remove escaped backslashes and clean up
-      html = html.replace(/\\\\/g, '').replace(/\\/g, '');
-      
-      // Clean up the HTML
-      const $ = load(html);
+      const $ = load(template.trim());
       return $.html();
     } catch {
       return null;
@@ -301,15 +506,29 @@ export class StorybookParser {
     }
   }
 
+  private docsPropsToComponentProps(docs: ComponentDocs): Record<string, ComponentProp> {
+    const props: Record<string, ComponentProp> = {};
+    
+    (docs.propsTable || []).forEach(row => {
+      const prop: ComponentProp = { type: row.type || 'unknown' };
+      if (row.default !== undefined) prop.default = row.default;
+      if (row.description) prop.description = row.description;
+      if (row.required) prop.required = true;
+      props[row.name] = prop;
+    });
+    
+    return props;
+  }
+
   private extractDescription(content: string): string {
     // Look for description in Meta or as comment
-    const descMatch = content.match(/description:\\s*['"]([^'"]+)['"]/);
+    const descMatch = content.match(/description:\s*['"]([^'"]+)['"]/);
     if (descMatch) {
       return descMatch[1];
     }
     
     // Look for first paragraph or comment
-    const paragraphMatch = content.match(/^([^\\n]+)/);
+    const paragraphMatch = content.match(/^([^\n]+)/);
     return paragraphMatch ? paragraphMatch[1].trim() : '';
   }
 
@@ -326,7 +545,7 @@ export class StorybookParser {
       return jsdocMatch[1];
     }
     
-    return 'A reusable component from the MADE design system';
+    return DEFAULT_DESCRIPTION;
   }
 
   private extractTags(content: string, sourcePath: string): string[] {
@@ -373,22 +592,14 @@ export class StorybookParser {
     const argValues: Record<string, Set<string>> = {};
     
     examples.forEach(example => {
-      // Extract args from story content by looking at the story definitions
-      const storyMatch = content.match(new RegExp(`export const ${example.title}.*?args:\\s*\\{([^}]+)\\}`, 's'));
-      if (storyMatch) {
-        const argsContent = storyMatch[1];
-        const argMatches = argsContent.matchAll(/(\w+):\s*['"]([^'"]*)['"]/g);
+      Object.entries(example.props || {}).forEach(([key, value]) => {
+        if (typeof value !== 'string') return;
         
-        for (const argMatch of argMatches) {
-          const key = argMatch[1];
-          const value = argMatch[2];
-          
-          if (!argValues[key]) {
-            argValues[key] = new Set();
-          }
-          argValues[key].add(value);
+        if (!argValues[key]) {
+          argValues[key] = new Set();
         }
-      }
+        argValues[key].add(value);
+      });
     });
     
     // Convert sets to arrays
@@ -401,41 +612,6 @@ export class StorybookParser {
     return variants;
   }
 
-  private extractProps(content: string): Record<string, any> {
-    const props: Record<string, any> = {};
-    
-    // Extract from argTypes
-    const argTypesMatch = content.match(/argTypes:\\s*\\{([\\s\\S]*?)\\}/);
-    if (argTypesMatch) {
-      // This would need more sophisticated parsing for complex argTypes
-      // For now, we'll extract basic property definitions
-    }
-    
-    return props;
-  }
-
-  private extractJSProps(content: string): Record<string, any> {
-    return this.extractProps(content);
-  }
-
-  private extractStoryArgs(storyContent: string): Record<string, any> {
-    const args: Record<string, any> = {};
-    
-    const argsMatch = storyContent.match(/args:\\s*\\{([\\s\\S]*?)\\}/);
-    if (argsMatch) {
-      const argsContent = argsMatch[1];
-      
-      // Basic parsing of args object
-      const propRegex = /(\\w+):\\s*['\"']?([^,'\"\\}]+)['\"']?/g;
-      let match;
-      while ((match = propRegex.exec(argsContent)) !== null) {
-        args[match[1]] = match[2];
-      }
-    }
-    
-    return args;
-  }
-
   private extractAccessibilityNotes(content: string): string[] {
     const notes: string[] = [];
     
@@ -543,7 +719,7 @@ export class StorybookParser {
   private findNearbyDescription(content: string, index: number): string {
     // Look backwards from the match to find a description
     const before = content.substring(Math.max(0, index - 200), index);
-    const lines = before.split('\\n').reverse();
+    const lines = before.split('\n').reverse();
     
     for (const line of lines) {
       const trimmed = line.trim();
@@ -566,10 +742,10 @@ export class StorybookParser {
     return [...this.components];
   }
 
-  // Get component by name
+  // Get component by name or canonical id
   getComponent(name: string): MADEComponent | undefined {
     return this.components.find(comp => 
-      comp.name.toLowerCase() === name.toLowerCase()
+      comp.name.toLowerCase() === name.toLowerCase() || comp.id === name
     );
   }
 
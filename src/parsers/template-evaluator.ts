@@ -0,0 +1,257 @@
+import ts from 'typescript';
+import { StoryFileAST } from './story-ast.js';
+
+export type Scope = Record<string, unknown>;
+
+// Returned for expressions the evaluator does not support
+const UNRESOLVED = Symbol('unresolved');
+
+// Methods that are safe to call on story args while rendering a template
+const ARRAY_METHODS = new Set(['map', 'filter', 'join', 'includes', 'slice', 'concat']);
+const STRING_METHODS = new Set(['toUpperCase', 'toLowerCase', 'trim', 'includes', 'startsWith', 'endsWith', 'replace', 'slice', 'split']);
+
+const MAX_DEPTH = 50;
+
+/**
+ * Safe evaluator for story template literals. Walks the TypeScript AST of an
+ * interpolation and supports args lookups, literals, logical/conditional
+ * expressions, comparisons, nested templates and a whitelist of array and
+ * string methods (`.map()`, `.join()`...). Nothing is ever executed.
+ */
+export class TemplateEvaluator {
+  private ast: StoryFileAST;
+
+  constructor(ast: StoryFileAST) {
+    this.ast = ast;
+  }
+
+  /**
+   * Renders a template literal (or plain string) with the given scope.
+   * Interpolations that cannot be evaluated render as empty strings.
+   */
+  render(template: ts.Expression, scope: Scope): string | null {
+    const node = ts.isTaggedTemplateExpression(template) ? template.template : template;
+
+    if (ts.isNoSubstitutionTemplateLiteral(node) || ts.isStringLiteral(node)) {
+      return node.text;
+    }
+    if (ts.isTemplateExpression(node)) {
+      return this.renderTemplateExpression(node, scope, 0);
+    }
+    return null;
+  }
+
+  evaluate(expression: ts.Expression, scope: Scope): unknown {
+    const value = this.evaluateNode(expression, scope, 0);
+    return value === UNRESOLVED ? undefined : value;
+  }
+
+  private renderTemplateExpression(node: ts.TemplateExpression, scope: Scope, depth: number): string {
+    let result = node.head.text;
+    node.templateSpans.forEach(span => {
+      result += this.stringify(this.evaluateNode(span.expression, scope, depth + 1)) + span.literal.text;
+    });
+    return result;
+  }
+
+  private evaluateNode(expression: ts.Expression, scope: Scope, depth: number): unknown {
+    if (depth > MAX_DEPTH) return UNRESOLVED;
+
+    const node = this.ast.unwrap(expression);
+
+    if (ts.isIdentifier(node)) {
+      if (node.text in scope) return scope[node.text];
+      if (node.text === 'undefined') return undefined;
+      return this.evaluateStatic(node);
+    }
+
+    if (ts.isNoSubstitutionTemplateLiteral(node) || ts.isStringLiteral(node)) {
+      return node.text;
+    }
+    if (ts.isTemplateExpression(node)) {
+      return this.renderTemplateExpression(node, scope, depth);
+    }
+    if (ts.isTaggedTemplateExpression(node)) {
+      return this.evaluateNode(node.template, scope, depth + 1);
+    }
+
+    if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+      const target = this.evaluateNode(node.expression, scope, depth + 1);
+      const key = ts.isPropertyAccessExpression(node)
+        ? node.name.text
+        : this.evaluateNode(node.argumentExpression, scope, depth + 1);
+      return this.readProperty(target, key, !!node.questionDotToken);
+    }
+
+    if (ts.isConditionalExpression(node)) {
+      const condition = this.evaluateNode(node.condition, scope, depth + 1);
+      if (condition === UNRESOLVED) return UNRESOLVED;
+      return this.evaluateNode(condition ? node.whenTrue : node.whenFalse, scope, depth + 1);
+    }
+
+    if (ts.isPrefixUnaryExpression(node)) {
+      const operand = this.evaluateNode(node.operand, scope, depth + 1);
+      if (operand === UNRESOLVED) return UNRESOLVED;
+
+      switch (node.operator) {
+        case ts.SyntaxKind.ExclamationToken:
+          return !operand;
+        case ts.SyntaxKind.MinusToken:
+          return typeof operand === 'number' ? -operand : UNRESOLVED;
+        case ts.SyntaxKind.PlusToken:
+          return Number(operand);
+      }
+      return UNRESOLVED;
+    }
+
+    if (ts.isBinaryExpression(node)) {
+      return this.evaluateBinary(node, scope, depth);
+    }
+
+    if (ts.isCallExpression(node)) {
+      return this.evaluateCall(node, scope, depth);
+    }
+
+    if (ts.isArrayLiteralExpression(node)) {
+      const values = node.elements.map(element => this.evaluateNode(element, scope, depth + 1));
+      return values.includes(UNRESOLVED) ? UNRESOLVED : values;
+    }
+
+    return this.evaluateStatic(node);
+  }
+
+  private evaluateBinary(node: ts.BinaryExpression, scope: Scope, depth: number): unknown {
+    const operator = node.operatorToken.kind;
+    const left = this.evaluateNode(node.left, scope, depth + 1);
+    if (left === UNRESOLVED) return UNRESOLVED;
+
+    // Short-circuit like JavaScript so the unused branch is never evaluated
+    switch (operator) {
+      case ts.SyntaxKind.AmpersandAmpersandToken:
+        return left ? this.evaluateNode(node.right, scope, depth + 1) : left;
+      case ts.SyntaxKind.BarBarToken:
+        return left ? left : this.evaluateNode(node.right, scope, depth + 1);
+      case ts.SyntaxKind.QuestionQuestionToken:
+        return left ?? this.evaluateNode(node.right, scope, depth + 1);
+    }
+
+    const right = this.evaluateNode(node.right, scope, depth + 1);
+    if (right === UNRESOLVED) return UNRESOLVED;
+
+    switch (operator) {
+      case ts.SyntaxKind.EqualsEqualsEqualsToken:
+        return left === right;
+      case ts.SyntaxKind.ExclamationEqualsEqualsToken:
+        return left !== right;
+      case ts.SyntaxKind.EqualsEqualsToken:
+        return left == right;
+      case ts.SyntaxKind.ExclamationEqualsToken:
+        return left != right;
+      case ts.SyntaxKind.LessThanToken:
+        return (left as number) < (right as number);
+      case ts.SyntaxKind.LessThanEqualsToken:
+        return (left as number) <= (right as number);
+      case ts.SyntaxKind.GreaterThanToken:
+        return (left as number) > (right as number);
+      case ts.SyntaxKind.GreaterThanEqualsToken:
+        return (left as number) >= (right as number);
+      case ts.SyntaxKind.PlusToken:
+        return typeof left === 'number' && typeof right === 'number'
+          ? left + right
+          : this.stringify(left) + this.stringify(right);
+      case ts.SyntaxKind.MinusToken:
+        return Number(left) - Number(right);
+      case ts.SyntaxKind.AsteriskToken:
+        return Number(left) * Number(right);
+      case ts.SyntaxKind.SlashToken:
+        return Number(left) / Number(right);
+    }
+    return UNRESOLVED;
+  }
+
+  private evaluateCall(node: ts.CallExpression, scope: Scope, depth: number): unknown {
+    if (!ts.isPropertyAccessExpression(node.expression)) return UNRESOLVED;
+
+    const method = node.expression.name.text;
+    const target = this.evaluateNode(node.expression.expression, scope, depth + 1);
+    if (target === UNRESOLVED) return UNRESOLVED;
+
+    if (Array.isArray(target) && ARRAY_METHODS.has(method)) {
+      if (method === 'map' || method === 'filter') {
+        const callback = node.arguments[0] && this.ast.unwrap(node.arguments[0]);
+        if (!callback || !(ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))) return UNRESOLVED;
+
+        const results = target.map((item, index) => this.invoke(callback, [item, index], scope, depth));
+        if (results.includes(UNRESOLVED)) return UNRESOLVED;
+
+        return method === 'map' ? results : target.filter((_, index) => results[index]);
+      }
+
+      const args = node.arguments.map(arg => this.evaluateNode(arg, scope, depth + 1));
+      if (args.includes(UNRESOLVED)) return UNRESOLVED;
+      return Reflect.apply((Array.prototype as unknown as Record<string, CallableFunction>)[method], target, args);
+    }
+
+    if (typeof target === 'string' && STRING_METHODS.has(method)) {
+      const args = node.arguments.map(arg => this.evaluateNode(arg, scope, depth + 1));
+      if (args.includes(UNRESOLVED)) return UNRESOLVED;
+      return Reflect.apply((String.prototype as unknown as Record<string, CallableFunction>)[method], target, args);
+    }
+
+    return UNRESOLVED;
+  }
+
+  private invoke(fn: ts.ArrowFunction | ts.FunctionExpression, values: unknown[], scope: Scope, depth: number): unknown {
+    const inner: Scope = { ...scope };
+
+    fn.parameters.forEach((parameter, index) => {
+      const value = values[index];
+
+      if (ts.isIdentifier(parameter.name)) {
+        inner[parameter.name.text] = value;
+      } else if (ts.isObjectBindingPattern(parameter.name)) {
+        parameter.name.elements.forEach(element => {
+          if (!ts.isIdentifier(element.name)) return;
+          const key = element.propertyName && ts.isIdentifier(element.propertyName)
+            ? element.propertyName.text
+            : element.name.text;
+          inner[element.name.text] = this.readProperty(value, key, true);
+        });
+      }
+    });
+
+    if (ts.isBlock(fn.body)) {
+      const returned = fn.body.statements.find(ts.isReturnStatement);
+      return returned?.expression ? this.evaluateNode(returned.expression, inner, depth + 1) : undefined;
+    }
+    return this.evaluateNode(fn.body, inner, depth + 1);
+  }
+
+  private readProperty(target: unknown, key: unknown, optional: boolean): unknown {
+    if (target === UNRESOLVED || key === UNRESOLVED) return UNRESOLVED;
+    if (typeof key !== 'string' && typeof key !== 'number') return UNRESOLVED;
+    if (target === null || target === undefined) return optional ? undefined : UNRESOLVED;
+
+    if (Array.isArray(target) || typeof target === 'string') {
+      if (key === 'length') return target.length;
+      return typeof key === 'number' || /^\d+$/.test(key) ? target[Number(key)] : UNRESOLVED;
+    }
+    if (typeof target === 'object' && Object.prototype.hasOwnProperty.call(target, key)) {
+      return (target as Record<string, unknown>)[key];
+    }
+    return typeof target === 'object' ? undefined : UNRESOLVED;
+  }
+
+  private evaluateStatic(node: ts.Expression): unknown {
+    const value = this.ast.evaluate(node);
+    return value === undefined ? UNRESOLVED : value;
+  }
+
+  private stringify(value: unknown): string {
+    // Mirrors lit-html: nullish and false render nothing, arrays are concatenated
+    if (value === UNRESOLVED || value === undefined || value === null || value === false) return '';
+    if (Array.isArray(value)) return value.map(item => this.stringify(item)).join('');
+    if (typeof value === 'object') return '';
+    return String(value);
+  }
+}
@@ -0,0 +1,286 @@
+import {
+  MADEToken,
+  ParsedTokenValue,
+  ColorValue,
+  DimensionValue,
+  DurationValue,
+  FontStackValue
+} from '../types.js';
+
+type TokenHint = Partial<Pick<MADEToken, 'name' | 'category' | 'type'>>;
+
+// Root font size used for px ⇄ rem/em equivalents
+const ROOT_FONT_SIZE = 16;
+
+const PX_PER_UNIT: Record<string, number> = {
+  px: 1,
+  rem: ROOT_FONT_SIZE,
+  em: ROOT_FONT_SIZE,
+  pt: 4 / 3,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4
+};
+
+const DIMENSION = /^(-?(?:\d+\.?\d*|\.\d+))(px|rem|em|pt|pc|in|cm|mm|%|vh|vw|vmin|vmax|dvh|svh|lvh|ch|ex)$/i;
+const DURATION = /^(-?(?:\d+\.?\d*|\.\d+))(ms|s)$/i;
+const NUMBER = /^-?(?:\d+\.?\d*|\.\d+)$/;
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  orange: '#ffa500',
+  purple: '#800080',
+  gray: '#808080',
+  grey: '#808080',
+  silver: '#c0c0c0',
+  navy: '#000080',
+  teal: '#008080',
+  maroon: '#800000',
+  olive: '#808000',
+  lime: '#00ff00',
+  aqua: '#00ffff',
+  cyan: '#00ffff',
+  fuchsia: '#ff00ff',
+  magenta: '#ff00ff',
+  transparent: '#00000000'
+};
+
+/**
+ * Parses token values into numbers: colors (hex, rgb(), hsl(), oklch(),
+ * named) normalized to hex/RGB/OKLCH with alpha, dimensions split into
+ * number and unit with px/rem equivalents, durations in ms and font stacks
+ * as arrays. Values that still contain `var()` or `calc()` are not parsed.
+ */
+export class TokenValueParser {
+  /**
+   * Parses a token's resolved value; the token's category and type decide
+   * between ambiguous readings (e.g. '400' as a number, 'Inter' as a font).
+   */
+  parseToken(token: MADEToken): ParsedTokenValue | undefined {
+    return this.parse(token.resolvedValue ?? token.value, token);
+  }
+
+  parse(value: string, hint: TokenHint = {}): ParsedTokenValue | undefined {
+    const trimmed = value.trim();
+    if (!trimmed || /var\(|calc\(|env\(/i.test(trimmed)) return undefined;
+
+    if (hint.type === 'fontFamily') return this.parseFontStack(trimmed);
+
+    const color = this.parseColor(trimmed);
+    if (color) return color;
+
+    const duration = this.parseDuration(trimmed);
+    if (duration) return duration;
+
+    const dimension = this.parseDimension(trimmed);
+    if (dimension) return dimension;
+
+    if (NUMBER.test(trimmed)) {
+      // Unitless zero is a length in spacing and radius scales
+      if (Number(trimmed) === 0 && ['spacing', 'radius', 'breakpoint'].includes(hint.category ?? '')) {
+        return { kind: 'dimension', value: 0, unit: 'px', px: 0, rem: 0 };
+      }
+      return { kind: 'number', value: Number(trimmed) };
+    }
+
+    if (this.isFontStack(trimmed, hint)) return this.parseFontStack(trimmed);
+    return undefined;
+  }
+
+  parseColor(value: string): ColorValue | undefined {
+    const trimmed = value.trim().toLowerCase();
+
+    if (trimmed.startsWith('#')) return this.parseHex(trimmed);
+    if (NAMED_COLORS[trimmed]) return this.parseHex(NAMED_COLORS[trimmed]);
+
+    const fn = trimmed.match(/^(rgba?|hsla?|oklch)\(([^()]*)\)$/);
+    if (!fn) return undefined;
+
+    const { channels, alpha } = this.splitChannels(fn[2]);
+    if (channels.length !== 3 || alpha === undefined) return undefined;
+
+    switch (fn[1]) {
+      case 'rgb':
+      case 'rgba': {
+        const [r, g, b] = channels.map(channel => this.parseChannel(channel, 255));
+        return this.fromRGB(r, g, b, alpha);
+      }
+      case 'hsl':
+      case 'hsla': {
+        const [r, g, b] = this.hslToRGB(this.parseHue(channels[0]), this.parseChannel(channels[1], 100) / 100, this.parseChannel(channels[2], 100) / 100);
+        return this.fromRGB(r, g, b, alpha);
+      }
+      default: {
+        const l = this.parseChannel(channels[0], 1);
+        const c = this.parseChannel(channels[1], 0.4);
+        const h = this.parseHue(channels[2]);
+        const [r, g, b] = this.oklabToRGB(l, c * Math.cos(h * Math.PI / 180), c * Math.sin(h * Math.PI / 180));
+        return this.fromRGB(r, g, b, alpha);
+      }
+    }
+  }
+
+  parseDimension(value: string): DimensionValue | undefined {
+    const match = value.trim().match(DIMENSION);
+    if (!match) return undefined;
+
+    const number = Number(match[1]);
+    const unit = match[2].toLowerCase();
+    const dimension: DimensionValue = { kind: 'dimension', value: number, unit };
+
+    const factor = PX_PER_UNIT[unit];
+    if (factor !== undefined) {
+      dimension.px = this.round(number * factor, 4);
+      dimension.rem = this.round(number * factor / ROOT_FONT_SIZE, 4);
+    }
+    return dimension;
+  }
+
+  parseDuration(value: string): DurationValue | undefined {
+    const match = value.trim().match(DURATION);
+    if (!match) return undefined;
+
+    const number = Number(match[1]);
+    const unit = match[2].toLowerCase() as DurationValue['unit'];
+    return { kind: 'duration', value: number, unit, ms: unit === 's' ? number * 1000 : number };
+  }
+
+  parseFontStack(value: string): FontStackValue {
+    const families: string[] = [];
+    let current = '';
+    let quote = '';
+
+    for (const char of value) {
+      if (quote) {
+        if (char === quote) quote = '';
+        else current += char;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === ',') {
+        if (current.trim()) families.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    if (current.trim()) families.push(current.trim());
+
+    return { kind: 'fontFamily', families };
+  }
+
+  private isFontStack(value: string, hint: TokenHint): boolean {
+    if (hint.category !== 'typography') return false;
+    return /,|^['"]/.test(value) || /family|font-stack/.test(hint.name ?? '');
+  }
+
+  private parseHex(value: string): ColorValue | undefined {
+    const hex = value.slice(1);
+    if (!/^([\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})$/.test(hex)) return undefined;
+
+    const full = hex.length <= 4 ? [...hex].map(char => char + char).join('') : hex;
+    const [r, g, b] = [0, 2, 4].map(offset => parseInt(full.slice(offset, offset + 2), 16));
+    const alpha = full.length === 8 ? parseInt(full.slice(6, 8), 16) / 255 : 1;
+
+    return this.fromRGB(r, g, b, alpha);
+  }
+
+  // 'r g b / a', 'r, g, b, a' or 'r, g, b'
+  private splitChannels(args: string): { channels: string[]; alpha: number | undefined } {
+    const [color, slashAlpha] = args.split('/');
+    const channels = color.split(/[\s,]+/).filter(Boolean);
+    const alpha = slashAlpha !== undefined ? slashAlpha.trim() : channels.length === 4 ? channels.pop() : undefined;
+
+    if (alpha === undefined) return { channels, alpha: 1 };
+    if (!/^-?[\d.]+%?$/.test(alpha)) return { channels, alpha: undefined };
+    return { channels, alpha: Math.min(1, Math.max(0, this.parseChannel(alpha, 1))) };
+  }
+
+  // Numbers as-is, percentages scaled to the channel's range
+  private parseChannel(channel: string, scale: number): number {
+    return channel.endsWith('%') ? parseFloat(channel) / 100 * scale : parseFloat(channel);
+  }
+
+  private parseHue(hue: string): number {
+    const number = parseFloat(hue);
+    if (hue.endsWith('turn')) return number * 360;
+    if (hue.endsWith('grad')) return number * 0.9;
+    if (hue.endsWith('rad')) return number * 180 / Math.PI;
+    return number;
+  }
+
+  private fromRGB(r: number, g: number, b: number, alpha: number): ColorValue | undefined {
+    if ([r, g, b, alpha].some(channel => Number.isNaN(channel))) return undefined;
+
+    const rgb = {
+      r: Math.round(Math.min(255, Math.max(0, r))),
+      g: Math.round(Math.min(255, Math.max(0, g))),
+      b: Math.round(Math.min(255, Math.max(0, b)))
+    };
+    const roundedAlpha = this.round(alpha, 3);
+    const toHex = (channel: number) => channel.toString(16).padStart(2, '0');
+
+    let hex = `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`;
+    if (roundedAlpha < 1) hex += toHex(Math.round(roundedAlpha * 255));
+
+    return { kind: 'color', hex, rgb, alpha: roundedAlpha, oklch: this.rgbToOKLCH(rgb.r, rgb.g, rgb.b) };
+  }
+
+  private hslToRGB(h: number, s: number, l: number): [number, number, number] {
+    const hue = ((h % 360) + 360) % 360;
+    const chroma = (1 - Math.abs(2 * l - 1)) * s;
+    const channel = (n: number) => {
+      const k = (n + hue / 30) % 12;
+      return (l - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+    };
+    return [channel(0), channel(8), channel(4)];
+  }
+
+  // sRGB → OKLab → OKLCH (https://bottosson.github.io/posts/oklab/)
+  private rgbToOKLCH(r: number, g: number, b: number): ColorValue['oklch'] {
+    const [lr, lg, lb] = [r, g, b].map(channel => {
+      const c = channel / 255;
+      return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    });
+
+    const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+    const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+    const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+    const L = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+    const a = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+    const bb = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+
+    const c = Math.sqrt(a * a + bb * bb);
+    const h = c < 1e-4 ? 0 : (Math.atan2(bb, a) * 180 / Math.PI + 360) % 360;
+
+    return { l: this.round(L, 4), c: this.round(c, 4), h: this.round(h, 2) };
+  }
+
+  private oklabToRGB(L: number, a: number, b: number): [number, number, number] {
+    const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+    const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+    const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+
+    const linear = [
+      4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+      -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+      -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+    ];
+
+    return linear.map(channel => {
+      const c = Math.min(1, Math.max(0, channel));
+      return (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055) * 255;
+    }) as [number, number, number];
+  }
+
+  private round(value: number, digits: number): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  }
+}
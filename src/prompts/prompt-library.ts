@@ -0,0 +1,248 @@
+import { load } from 'cheerio';
+import { MADEToken, MADEComponent, LintIssue, LintRuleSummary, LintRulesConfig, MADEPrompt, GetPromptResponse } from '../types.js';
+import { BOOTSTRAP_TO_MADE } from '../linting/markup-linter.js';
+import { logger } from '../utils/logger.js';
+
+const FORM_KEYWORDS = ['form', 'input', 'field', 'select', 'checkbox', 'radio', 'textarea', 'label', 'button', 'btn'];
+
+// Keep embedded context small enough for a single prompt
+const MAX_COMPONENTS = 6;
+const MAX_TOKENS_PER_CATEGORY = 25;
+
+export class PromptLibrary {
+  private components: MADEComponent[] = [];
+  private tokens: MADEToken[] = [];
+  private lintRules: LintRuleSummary[] = [];
+  private initialized = false;
+
+  /**
+   * @param lintConfig Severities from .maderc.json; rules it turns off are
+   * left out of the prompts, since the linter never reports them.
+   */
+  async initialize(
+    components: MADEComponent[],
+    tokens: MADEToken[],
+    lintRules: LintRuleSummary[],
+    lintConfig: LintRulesConfig = {}
+  ): Promise<void> {
+    this.components = components;
+    this.tokens = tokens;
+    this.lintRules = lintRules.filter(rule => lintConfig[rule.id] !== 'off');
+    this.initialized = true;
+    logger.info(`Prompt library initialized with ${components.length} components and ${tokens.length} tokens`);
+  }
+
+  listPrompts(): MADEPrompt[] {
+    return [
+      {
+        name: 'build_form',
+        description: 'Build a form with MADE components, tokens and accessibility rules',
+        arguments: [
+          { name: 'fields', description: 'Fields the form needs, e.g. "name, email, password, remember me"', required: true },
+          { name: 'purpose', description: 'What the form is for, e.g. "account sign-up"', required: false }
+        ]
+      },
+      {
+        name: 'audit_markup',
+        description: 'Audit HTML markup for MADE design system compliance',
+        arguments: [
+          { name: 'html', description: 'HTML markup to audit', required: true }
+        ]
+      },
+      {
+        name: 'migrate_bootstrap',
+        description: 'Migrate a Bootstrap HTML snippet to MADE components and tokens',
+        arguments: [
+          { name: 'html', description: 'Bootstrap HTML snippet to migrate', required: true }
+        ]
+      }
+    ];
+  }
+
+  getPrompt(name: string, args: Record<string, string> = {}, lintIssues: LintIssue[] = []): GetPromptResponse {
+    if (!this.initialized) {
+      throw new Error('Prompt library not initialized');
+    }
+
+    const prompt = this.listPrompts().find(p => p.name === name);
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]?.trim());
+    if (missing.length > 0) {
+      throw new Error(`Missing required argument(s) for prompt ${name}: ${missing.map(arg => arg.name).join(', ')}`);
+    }
+
+    let text: string;
+    switch (name) {
+      case 'build_form':
+        text = this.buildFormPrompt(args.fields, args.purpose);
+        break;
+      case 'audit_markup':
+        text = this.buildAuditPrompt(args.html, lintIssues);
+        break;
+      case 'migrate_bootstrap':
+        text = this.buildMigrationPrompt(args.html);
+        break;
+      default:
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }]
+    };
+  }
+
+  private buildFormPrompt(fields: string, purpose?: string): string {
+    const components = this.components
+      .filter(comp => this.matchesKeywords(comp, FORM_KEYWORDS))
+      .slice(0, MAX_COMPONENTS);
+
+    return [
+      `Build an HTML form${purpose ? ` for ${purpose}` : ''} using the MADE design system.`,
+      '',
+      `Fields: ${fields}`,
+      '',
+      'Requirements:',
+      '- Use only MADE classes and components listed below; do not invent made-* classes.',
+      '- Use MADE tokens (var(--made-*)) for any custom spacing or typography instead of raw values.',
+      '- Every control needs an associated <label>, and the submit button needs type="submit".',
+      '',
+      this.formatComponents(components),
+      this.formatTokens(['spacing', 'typography']),
+      this.formatLintRules()
+    ].join('\n');
+  }
+
+  private buildAuditPrompt(html: string, lintIssues: LintIssue[]): string {
+    const classes = this.extractClasses(html);
+    const components = this.components
+      .filter(comp => comp.cssClasses.some(cls => classes.includes(cls)))
+      .slice(0, MAX_COMPONENTS);
+
+    const findings = lintIssues.length > 0
+      ? lintIssues.map(issue => `- [${issue.type}] ${issue.message}${issue.fixSuggestion ? ` (fix: ${issue.fixSuggestion})` : ''}`)
+      : ['- No automated findings'];
+
+    return [
+      'Audit the following markup for MADE design system compliance.',
+      'Report each problem with the offending snippet, why it violates MADE, and the corrected markup.',
+      '',
+      '```html',
+      html,
+      '```',
+      '',
+      '## Automated lint findings',
+      ...findings,
+      '',
+      this.formatComponents(components),
+      this.formatTokens(['color', 'spacing']),
+      this.formatLintRules()
+    ].join('\n');
+  }
+
+  private buildMigrationPrompt(html: string): string {
+    const classes = this.extractClasses(html);
+    const knownMadeClasses = new Set(this.components.flatMap(comp => comp.cssClasses));
+
+    const migrations = classes
+      .map(cls => ({ from: cls, to: BOOTSTRAP_TO_MADE[cls] || (/^col-/.test(cls) ? 'made-col' : '') }))
+      .filter(migration => migration.to);
+
+    const mappings = migrations.map(({ from, to }) => {
+      const verified = knownMadeClasses.has(to) ? '' : ' (not found in the indexed components, verify before use)';
+      return `- .${from} → .${to}${verified}`;
+    });
+
+    const targetClasses = migrations.map(migration => migration.to);
+    const components = this.components
+      .filter(comp => comp.cssClasses.some(cls => targetClasses.includes(cls)))
+      .slice(0, MAX_COMPONENTS);
+
+    return [
+      'Migrate the following Bootstrap snippet to the MADE design system.',
+      'Keep the structure and content, replace Bootstrap classes with MADE classes, and replace hard-coded colors and spacing with MADE tokens.',
+      '',
+      '```html',
+      html,
+      '```',
+      '',
+      '## Class mapping',
+      ...(mappings.length > 0 ? mappings : ['- No known Bootstrap classes detected']),
+      '',
+      this.formatComponents(components),
+      this.formatTokens(['color', 'spacing']),
+      this.formatLintRules()
+    ].join('\n');
+  }
+
+  private formatComponents(components: MADEComponent[]): string {
+    if (components.length === 0) {
+      return '## MADE components\n- No matching components in the index\n';
+    }
+
+    const sections = components.map(comp => {
+      const variants = Object.entries(comp.variants)
+        .map(([name, values]) => `${name}: ${values.join(', ')}`)
+        .join('; ');
+
+      return [
+        `### ${comp.name}`,
+        comp.description,
+        variants ? `Variants: ${variants}` : '',
+        `Classes: ${comp.cssClasses.join(', ')}`,
+        '```html',
+        comp.htmlScaffold,
+        '```'
+      ].filter(Boolean).join('\n');
+    });
+
+    return ['## MADE components', ...sections, ''].join('\n');
+  }
+
+  private formatTokens(categories: MADEToken['category'][]): string {
+    const lines = ['## MADE tokens'];
+
+    categories.forEach(category => {
+      const tokens = this.tokens.filter(token => token.category === category).slice(0, MAX_TOKENS_PER_CATEGORY);
+      if (tokens.length > 0) {
+        lines.push(`### ${category}`);
+        tokens.forEach(token => lines.push(`- ${token.name}: ${token.value}`));
+      }
+    });
+
+    if (lines.length === 1) {
+      lines.push('- No tokens in the index');
+    }
+
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  private formatLintRules(): string {
+    return [
+      '## MADE lint rules',
+      ...this.lintRules.map(rule => `- [${rule.category}] ${rule.description} (${rule.id})`)
+    ].join('\n');
+  }
+
+  private matchesKeywords(component: MADEComponent, keywords: string[]): boolean {
+    const text = [component.name, ...component.tags, ...component.cssClasses].join(' ').toLowerCase();
+    return keywords.some(keyword => text.includes(keyword));
+  }
+
+  private extractClasses(html: string): string[] {
+    const classes = new Set<string>();
+    const $ = load(html);
+
+    $('[class]').each((_, element) => {
+      ($(element).attr('class') || '').split(/\s+/).forEach(cls => {
+        if (cls.trim()) classes.add(cls.trim());
+      });
+    });
+
+    return [...classes];
+  }
+}
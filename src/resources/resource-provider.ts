@@ -0,0 +1,141 @@
+import { MADEToken, MADEComponent, IndexMeta, MADEResource, MADEResourceTemplate, ReadResourceResponse } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+const RESOURCE_SCHEME = 'made://';
+
+export class ResourceProvider {
+  private tokens: MADEToken[] = [];
+  private components: MADEComponent[] = [];
+  private indexMeta: IndexMeta | null = null;
+  private initialized = false;
+
+  async initialize(components: MADEComponent[], tokens: MADEToken[], indexMeta: IndexMeta | null): Promise<void> {
+    this.components = components;
+    this.tokens = tokens;
+    this.indexMeta = indexMeta;
+    this.initialized = true;
+    logger.info(`Resource provider initialized with ${components.length} components and ${tokens.length} tokens`);
+  }
+
+  listResources(): MADEResource[] {
+    this.ensureInitialized();
+
+    const resources: MADEResource[] = [
+      {
+        uri: `${RESOURCE_SCHEME}meta`,
+        name: 'Index metadata',
+        description: 'Upstream version, commit and build time of the MADE indexes',
+        mimeType: 'application/json'
+      }
+    ];
+
+    // One resource per token category present in the index
+    const categories = [...new Set(this.tokens.map(token => token.category))].sort();
+    categories.forEach(category => {
+      const count = this.tokens.filter(token => token.category === category).length;
+      resources.push({
+        uri: `${RESOURCE_SCHEME}tokens/${category}`,
+        name: `${category} tokens`,
+        description: `${count} MADE ${category} design tokens`,
+        mimeType: 'application/json'
+      });
+    });
+
+    this.components.forEach(component => {
+      resources.push({
+        uri: `${RESOURCE_SCHEME}components/${encodeURIComponent(component.name)}`,
+        name: `${component.name} component`,
+        description: component.description,
+        mimeType: 'application/json'
+      });
+    });
+
+    return resources;
+  }
+
+  listResourceTemplates(): MADEResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${RESOURCE_SCHEME}tokens/{category}`,
+        name: 'Design tokens by category',
+        description: 'MADE tokens for a category (color, spacing, typography, shadow, radius, breakpoint, time, other)',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: `${RESOURCE_SCHEME}components/{name}`,
+        name: 'Component details',
+        description: 'Scaffold, classes, variants, tokens and examples for a MADE component',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: `${RESOURCE_SCHEME}components/{name}/examples/{n}`,
+        name: 'Component example',
+        description: 'HTML of the n-th (zero-based) example of a MADE component',
+        mimeType: 'text/html'
+      }
+    ];
+  }
+
+  readResource(uri: string): ReadResourceResponse {
+    this.ensureInitialized();
+
+    if (!uri.startsWith(RESOURCE_SCHEME)) {
+      throw new Error(`Unsupported resource URI: ${uri}`);
+    }
+
+    const segments = uri.substring(RESOURCE_SCHEME.length).split('/').map(decodeURIComponent);
+
+    if (segments.length === 1 && segments[0] === 'meta') {
+      return this.jsonContents(uri, this.indexMeta || { error: 'Indexes have not been built' });
+    }
+
+    if (segments[0] === 'tokens' && segments.length === 2) {
+      const tokens = this.tokens.filter(token => token.category === segments[1]);
+      if (tokens.length === 0) {
+        throw new Error(`No tokens found for category '${segments[1]}'`);
+      }
+      return this.jsonContents(uri, { category: segments[1], tokens });
+    }
+
+    if (segments[0] === 'components' && segments.length >= 2) {
+      const component = this.findComponent(segments[1]);
+
+      if (segments.length === 2) {
+        return this.jsonContents(uri, component);
+      }
+
+      if (segments.length === 4 && segments[2] === 'examples') {
+        const index = Number(segments[3]);
+        const example = Number.isInteger(index) ? component.examples[index] : undefined;
+        if (!example) {
+          throw new Error(`Example ${segments[3]} not found for component '${component.name}' (${component.examples.length} available)`);
+        }
+        return {
+          contents: [{ uri, mimeType: 'text/html', text: example.html }]
+        };
+      }
+    }
+
+    throw new Error(`Resource not found: ${uri}`);
+  }
+
+  private findComponent(name: string): MADEComponent {
+    const component = this.components.find(comp => comp.name.toLowerCase() === name.toLowerCase() || comp.id === name);
+    if (!component) {
+      throw new Error(`Component '${name}' not found`);
+    }
+    return component;
+  }
+
+  private jsonContents(uri: string, data: unknown): ReadResourceResponse {
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }]
+    };
+  }
+
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      throw new Error('Resource provider not initialized');
+    }
+  }
+}
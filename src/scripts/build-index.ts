@@ -251,6 +251,8 @@ class IndexBuilder {
       logger.info(`  ${tag}: ${count} components`);
     });
     
+    logger.info(`\\nCSS classes: ${this.indexManager.getClasses().length}`);
+    
     logger.info(`\\nRepository: ${meta?.upstreamRef} (${meta?.upstreamCommit?.substring(0, 8)})`);
     logger.info(`Built: ${meta?.buildTime}`);
     
@@ -268,7 +270,7 @@ class IndexBuilder {
       });
       
       logger.info('\\nFile Sizes:');
-      const indexFiles = ['tokens.json', 'components.json', 'index-meta.json'];
+      const indexFiles = ['tokens.json', 'components.json', 'classes.json', 'index-meta.json'];
       for (const file of indexFiles) {
         try {
           const filePath = path.join(this.options.outputDir, file);
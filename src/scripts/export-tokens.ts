@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import process from 'node:process';
+import { IndexManager } from '../indexing/index-manager.js';
+import { DTCGExporter } from '../indexing/dtcg-exporter.js';
+import { TokenGraph } from '../indexing/token-graph.js';
+import { logger } from '../utils/logger.js';
+
+async function main() {
+  try {
+    const args = process.argv.slice(2);
+    const outputPath = args[0] || './data/exports/tokens.json';
+    const theme = args[1];
+
+    const indexManager = new IndexManager();
+    await indexManager.loadIndexes();
+
+    if (indexManager.getTokens().length === 0) {
+      logger.error('No tokens indexed. Run sync or build-indexes first.');
+      process.exit(1);
+    }
+
+    // The index holds one entry per theme; export a single theme's set so names don't collide
+    const tokenGraph = new TokenGraph();
+    await tokenGraph.initialize(indexManager.getTokens());
+    if (!tokenGraph.hasTheme(theme)) {
+      logger.error(`Unknown theme '${theme}'. Available themes: ${tokenGraph.getThemes().join(', ') || 'none'}`);
+      process.exit(1);
+    }
+
+    const tokens = tokenGraph.getThemeTokens(theme);
+    const document = new DTCGExporter().export(tokens);
+
+    await fs.ensureDir(path.dirname(outputPath));
+    await fs.writeJSON(outputPath, document, { spaces: 2 });
+
+    logger.info(`Exported ${tokens.length} ${theme ?? 'default'} tokens as DTCG JSON to ${outputPath}`);
+    process.exit(0);
+  } catch (error) {
+    logger.error('Failed to export tokens:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,237 @@
+import {
+  MADEToken,
+  ParsedTokenValue,
+  ColorValue,
+  NearestTokenMatch,
+  FindNearestTokenResponse
+} from '../types.js';
+import { TokenValueParser } from '../parsers/token-value-parser.js';
+import { logger } from '../utils/logger.js';
+
+interface Candidate {
+  token: MADEToken;
+  parsed: ParsedTokenValue;
+}
+
+interface Distance {
+  distance: number;
+  metric: NearestTokenMatch['metric'];
+  explanation: string;
+}
+
+const DEFAULT_LIMIT = 5;
+
+/**
+ * Finds the tokens closest to a raw CSS value: colors by perceptual
+ * distance (CIEDE2000 ΔE), dimensions by their px equivalent, durations in
+ * ms and plain numbers by difference. Used to replace hard-coded values
+ * with design tokens.
+ */
+export class NearestTokenFinder {
+  private valueParser = new TokenValueParser();
+  private candidates: Candidate[] = [];
+
+  async initialize(tokens: MADEToken[]): Promise<void> {
+    this.candidates = tokens.flatMap(token => {
+      const parsed = token.parsed ?? this.valueParser.parseToken(token);
+      return parsed ? [{ token, parsed }] : [];
+    });
+
+    logger.info(`Nearest token finder initialized with ${this.candidates.length} typed tokens`);
+  }
+
+  find(value: string, category?: string, limit = DEFAULT_LIMIT): FindNearestTokenResponse {
+    const parsed = this.valueParser.parse(value, { category: category as MADEToken['category'] });
+    if (!parsed) {
+      throw new Error(`Cannot parse '${value}' as a color, dimension, duration, number or font stack`);
+    }
+
+    return { input: value, parsed, matches: this.findParsed(parsed, category, limit) };
+  }
+
+  /**
+   * Closest tokens to an already parsed value; tokens of another kind
+   * (or incomparable units) are skipped.
+   */
+  findParsed(parsed: ParsedTokenValue, category?: string, limit = DEFAULT_LIMIT): NearestTokenMatch[] {
+    return this.candidates
+      .filter(candidate => !category || candidate.token.category === category)
+      .flatMap(candidate => {
+        const distance = this.measure(parsed, candidate.parsed);
+        return distance ? [{ candidate, ...distance }] : [];
+      })
+      // Equal distances: semantic tokens (aliases) before the palette values they point at
+      .sort((a, b) =>
+        a.distance - b.distance
+        || Number(!a.candidate.token.aliasChain) - Number(!b.candidate.token.aliasChain)
+        || a.candidate.token.name.localeCompare(b.candidate.token.name))
+      .slice(0, Math.max(1, limit))
+      .map(({ candidate, distance, metric, explanation }): NearestTokenMatch => ({
+        name: candidate.token.name,
+        value: candidate.token.value,
+        resolvedValue: candidate.token.resolvedValue ?? candidate.token.value,
+        category: candidate.token.category,
+        distance,
+        metric,
+        explanation
+      }));
+  }
+
+  private measure(input: ParsedTokenValue, token: ParsedTokenValue): Distance | undefined {
+    if (input.kind === 'color' && token.kind === 'color') {
+      return this.measureColor(input, token);
+    }
+
+    if (input.kind === 'dimension' && token.kind === 'dimension') {
+      if (input.px !== undefined && token.px !== undefined) {
+        const label = token.unit === 'px' ? `${token.px}px` : `${token.value}${token.unit} (${token.px}px)`;
+        return this.measureNumber(input.px, token.px, 'px', label, `${input.px}px`);
+      }
+      if (input.unit !== token.unit) return undefined;
+      return this.measureNumber(input.value, token.value, 'unit', `${token.value}${token.unit}`, `${input.value}${input.unit}`);
+    }
+
+    if (input.kind === 'duration' && token.kind === 'duration') {
+      return this.measureNumber(input.ms, token.ms, 'ms', `${token.ms}ms`, `${input.ms}ms`);
+    }
+
+    if (input.kind === 'number' && token.kind === 'number') {
+      return this.measureNumber(input.value, token.value, 'number', String(token.value), String(input.value));
+    }
+
+    if (input.kind === 'fontFamily' && token.kind === 'fontFamily') {
+      // Position of the input's primary family in the token's stack
+      const wanted = input.families[0]?.toLowerCase();
+      const index = token.families.findIndex(family => family.toLowerCase() === wanted);
+      if (index === -1) return undefined;
+      return {
+        distance: index,
+        metric: 'fontFamily',
+        explanation: index === 0 ? 'Same primary font family' : `${input.families[0]} is fallback #${index} in this stack`
+      };
+    }
+
+    return undefined;
+  }
+
+  private measureColor(input: ColorValue, token: ColorValue): Distance {
+    const deltaE = this.round(this.deltaE2000(this.toLab(input), this.toLab(token)));
+    const alphaDifference = this.round(Math.abs(input.alpha - token.alpha));
+
+    // Opacity isn't part of ΔE; count each 1% of alpha as one unit
+    const distance = this.round(deltaE + alphaDifference * 100);
+    if (distance === 0) {
+      return { distance, metric: 'deltaE2000', explanation: `Exact match for ${input.hex}` };
+    }
+
+    let explanation = `ΔE ${deltaE} from ${input.hex}: ${this.describeDeltaE(deltaE)}`;
+    if (alphaDifference > 0) explanation += `; opacity ${token.alpha} vs ${input.alpha}`;
+    return { distance, metric: 'deltaE2000', explanation };
+  }
+
+  private measureNumber(
+    input: number,
+    token: number,
+    metric: NearestTokenMatch['metric'],
+    tokenLabel: string,
+    inputLabel: string
+  ): Distance {
+    const difference = this.round(token - input);
+    const unit = metric === 'px' || metric === 'ms' ? metric : '';
+
+    if (difference === 0) {
+      return { distance: 0, metric, explanation: `Exact match for ${inputLabel}` };
+    }
+
+    const direction = metric === 'ms'
+      ? (difference > 0 ? 'longer' : 'shorter')
+      : (difference > 0 ? 'larger' : 'smaller');
+    return {
+      distance: Math.abs(difference),
+      metric,
+      explanation: `${tokenLabel} is ${Math.abs(difference)}${unit} ${direction} than ${inputLabel}`
+    };
+  }
+
+  private describeDeltaE(deltaE: number): string {
+    if (deltaE < 1) return 'not perceptible';
+    if (deltaE < 2) return 'perceptible on close inspection';
+    if (deltaE < 10) return 'perceptible at a glance';
+    if (deltaE < 50) return 'similar but clearly different';
+    return 'a different color';
+  }
+
+  // sRGB → CIE XYZ (D65) → CIELAB
+  private toLab(color: ColorValue): [number, number, number] {
+    const [r, g, b] = [color.rgb.r, color.rgb.g, color.rgb.b].map(channel => {
+      const c = channel / 255;
+      return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    });
+
+    const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047;
+    const y = 0.2126729 * r + 0.7151522 * g + 0.0721750 * b;
+    const z = (0.0193339 * r + 0.1191920 * g + 0.9503041 * b) / 1.08883;
+
+    const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+    const [fx, fy, fz] = [f(x), f(y), f(z)];
+
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+  }
+
+  private deltaE2000([L1, a1, b1]: number[], [L2, a2, b2]: number[]): number {
+    const rad = (degrees: number) => degrees * Math.PI / 180;
+    const deg = (radians: number) => radians * 180 / Math.PI;
+    const pow7 = (value: number) => Math.pow(value, 7);
+
+    const meanC = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+    const G = 0.5 * (1 - Math.sqrt(pow7(meanC) / (pow7(meanC) + pow7(25))));
+    const a1p = (1 + G) * a1;
+    const a2p = (1 + G) * a2;
+    const C1p = Math.hypot(a1p, b1);
+    const C2p = Math.hypot(a2p, b2);
+    const h1p = C1p === 0 ? 0 : (deg(Math.atan2(b1, a1p)) + 360) % 360;
+    const h2p = C2p === 0 ? 0 : (deg(Math.atan2(b2, a2p)) + 360) % 360;
+
+    let dhp = 0;
+    if (C1p * C2p !== 0) {
+      dhp = h2p - h1p;
+      if (dhp > 180) dhp -= 360;
+      else if (dhp < -180) dhp += 360;
+    }
+
+    const dLp = L2 - L1;
+    const dCp = C2p - C1p;
+    const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(rad(dhp / 2));
+
+    const meanL = (L1 + L2) / 2;
+    const meanCp = (C1p + C2p) / 2;
+    let meanHp = h1p + h2p;
+    if (C1p * C2p !== 0) {
+      if (Math.abs(h1p - h2p) <= 180) meanHp /= 2;
+      else meanHp = meanHp < 360 ? (meanHp + 360) / 2 : (meanHp - 360) / 2;
+    }
+
+    const T = 1
+      - 0.17 * Math.cos(rad(meanHp - 30))
+      + 0.24 * Math.cos(rad(2 * meanHp))
+      + 0.32 * Math.cos(rad(3 * meanHp + 6))
+      - 0.20 * Math.cos(rad(4 * meanHp - 63));
+    const dTheta = 30 * Math.exp(-Math.pow((meanHp - 275) / 25, 2));
+    const Rc = 2 * Math.sqrt(pow7(meanCp) / (pow7(meanCp) + pow7(25)));
+    const Sl = 1 + 0.015 * Math.pow(meanL - 50, 2) / Math.sqrt(20 + Math.pow(meanL - 50, 2));
+    const Sc = 1 + 0.045 * meanCp;
+    const Sh = 1 + 0.015 * meanCp * T;
+    const Rt = -Math.sin(rad(2 * dTheta)) * Rc;
+
+    return Math.sqrt(
+      Math.pow(dLp / Sl, 2)
+      + Math.pow(dCp / Sc, 2)
+      + Math.pow(dHp / Sh, 2)
+      + Rt * (dCp / Sc) * (dHp / Sh)
+    );
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
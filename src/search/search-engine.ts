@@ -1,6 +1,6 @@
 import fs from 'fs-extra';
 import * as path from 'path';
-import { MADEComponent, MADEToken, SearchResult } from '../types.js';
+import { MADEComponent, MADEToken, SearchResult, SourceLocation } from '../types.js';
 import { logger } from '../utils/logger.js';
 
 export class SearchEngine {
@@ -83,8 +83,7 @@ export class SearchEngine {
           component: component.name,
           title: `${component.name} Component`,
           html: primaryExample.html,
-          sourcePath: `components/${component.name.toLowerCase()}`,
-          upstreamRef: 'main'
+          ...this.provenance(component.sources?.[0], `components/${component.name.toLowerCase()}`)
         });
       }
     });
@@ -104,8 +103,7 @@ export class SearchEngine {
             component: component.name,
             title: `${component.name}: ${example.title}`,
             html: example.html,
-            sourcePath: `components/${component.name.toLowerCase()}/examples`,
-            upstreamRef: 'main'
+            ...this.provenance(example.source, `components/${component.name.toLowerCase()}/examples`)
           });
         }
       });
@@ -114,6 +112,15 @@ export class SearchEngine {
     return results;
   }
 
+  // Falls back to a synthesized path for indexes built before provenance was recorded
+  private provenance(source: SourceLocation | undefined, fallbackPath: string): Pick<SearchResult, 'sourcePath' | 'upstreamRef' | 'source'> {
+    return {
+      sourcePath: source?.path ?? fallbackPath,
+      upstreamRef: source?.upstreamRef ?? 'main',
+      ...(source && { source })
+    };
+  }
+
   private findMatches(component: MADEComponent, terms: string[], query: string): string[] {
     const matches: string[] = [];
     const searchableText = [
@@ -412,8 +419,7 @@ export class SearchEngine {
           component: component.name,
           title: `${component.name} Component (${matchingTags.join(', ')})`,
           html: primaryExample.html,
-          sourcePath: `components/${component.name.toLowerCase()}`,
-          upstreamRef: 'main'
+          ...this.provenance(component.sources?.[0], `components/${component.name.toLowerCase()}`)
         });
       }
     });
@@ -445,8 +451,7 @@ export class SearchEngine {
               component: component.name,
               title: `${component.name} - ${variantName}: ${variant}`,
               html: example.html,
-              sourcePath: `components/${component.name.toLowerCase()}/variants`,
-              upstreamRef: 'main'
+              ...this.provenance('source' in example ? example.source : undefined, `components/${component.name.toLowerCase()}/variants`)
             });
           });
         }
@@ -483,8 +488,7 @@ export class SearchEngine {
           component: component.name,
           title: `${component.name} Component (similar to ${targetComponent.name})`,
           html: primaryExample.html,
-          sourcePath: `components/${component.name.toLowerCase()}`,
-          upstreamRef: 'main'
+          ...this.provenance(component.sources?.[0], `components/${component.name.toLowerCase()}`)
         });
       }
     });
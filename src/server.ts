@@ -1,306 +1,643 @@
 #!/usr/bin/env node
 
+import process from "node:process";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import { LintRulesConfig } from "./types.js";
 import { MADEMCPServer } from "./mcp-server.js";
+import { HttpTransportServer } from "./transport/http-transport.js";
 import { logger } from "./utils/logger.js";
 
-const server = new Server(
-  {
-    name: "made-mcp-server",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
 const madeServer = new MADEMCPServer();
 
 // Initialize the server
 await madeServer.initialize();
 
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "list_tokens",
-        description: "List CSS variable tokens with categories and values",
-        inputSchema: {
-          type: "object",
-          properties: {
-            scope: {
-              type: "string",
-              description:
-                "Filter tokens by category (color, spacing, typography, etc.)",
-            },
-          },
-        },
-      },
-      {
-        name: "list_components",
-        description: "List available MADE components with metadata",
-        inputSchema: {
-          type: "object",
-          properties: {},
+// Pick up index rebuilds from the sync/build scripts without a restart
+const stopWatchingIndexes = madeServer.watchIndexes();
+
+// Every transport session gets its own protocol server backed by the shared
+// MADE server, so stdio and HTTP clients see the same tool set
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "made-mcp-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
         },
+        prompts: {},
       },
-      {
-        name: "get_component",
-        description:
-          "Get detailed component information including HTML scaffold and usage",
-        inputSchema: {
-          type: "object",
-          properties: {
-            name: {
-              type: "string",
-              description: 'Component name (e.g., "Button", "Card", "Alert")',
+    }
+  );
+
+  registerHandlers(server);
+  registerResourceHandlers(server);
+  registerPromptHandlers(server);
+  return server;
+}
+
+function registerPromptHandlers(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: await madeServer.listPrompts() };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { description, messages } = await madeServer.getPrompt(
+      request.params.name,
+      request.params.arguments
+    );
+    return { description, messages };
+  });
+}
+
+function registerResourceHandlers(server: Server): void {
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: await madeServer.listResources() };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: await madeServer.listResourceTemplates() };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { contents } = await madeServer.readResource(request.params.uri);
+    return { contents };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Tell this client about rebuilt indexes
+  const removeListener = madeServer.onIndexesUpdated(async () => {
+    await server.sendResourceListChanged();
+    for (const uri of subscriptions) {
+      await server.sendResourceUpdated({ uri });
+    }
+  });
+
+  server.onclose = () => {
+    subscriptions.clear();
+    removeListener();
+  };
+}
+
+function registerHandlers(server: Server): void {
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [
+        {
+          name: "list_tokens",
+          description: "List CSS variable tokens with categories and values",
+          inputSchema: {
+            type: "object",
+            properties: {
+              scope: {
+                type: "string",
+                description:
+                  "Filter tokens by category (color, spacing, typography, etc.)",
+              },
+              theme: {
+                type: "string",
+                description:
+                  'Return the values of this theme (e.g., "dark", "b2b"); defaults to the :root values',
+              },
             },
           },
-          required: ["name"],
         },
-      },
-      {
-        name: "scaffold_component",
-        description:
-          "Generate ready-to-use HTML scaffold for a component with props",
-        inputSchema: {
-          type: "object",
-          properties: {
-            name: {
-              type: "string",
-              description: "Component name",
-            },
-            props: {
-              type: "object",
-              description: "Component properties and variants",
-              additionalProperties: true,
+        {
+          name: "find_nearest_token",
+          description:
+            "Find the design tokens closest to a hard-coded CSS value (color, length, duration or number), ranked by perceptual color distance (ΔE) or numeric distance",
+          inputSchema: {
+            type: "object",
+            properties: {
+              value: {
+                type: "string",
+                description: 'Raw CSS value (e.g., "#1a73e8", "14px", "rgba(0, 0, 0, 0.5)", "200ms")',
+              },
+              category: {
+                type: "string",
+                description: "Only consider tokens of this category (color, spacing, typography, radius...)",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of matches (default 5)",
+              },
             },
+            required: ["value"],
           },
-          required: ["name"],
         },
-      },
-      {
-        name: "search_examples",
-        description: "Search for component examples and usage patterns",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description: "Search query for examples",
+        {
+          name: "compare_themes",
+          description:
+            "Compare two token themes and list the tokens whose resolved values differ",
+          inputSchema: {
+            type: "object",
+            properties: {
+              target: {
+                type: "string",
+                description: 'Theme to compare (e.g., "dark")',
+              },
+              base: {
+                type: "string",
+                description: 'Theme to compare against; defaults to the :root values ("default")',
+              },
+              category: {
+                type: "string",
+                description: "Only report changed tokens of this category",
+              },
             },
+            required: ["target"],
           },
-          required: ["query"],
         },
-      },
-      {
-        name: "lint_markup",
-        description:
-          "Validate HTML markup against MADE design system standards",
-        inputSchema: {
-          type: "object",
-          properties: {
-            html: {
-              type: "string",
-              description: "HTML markup to validate",
+        {
+          name: "resolve_token",
+          description:
+            "Resolve a token's alias chain to its final value and list the tokens that reference it",
+          inputSchema: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description:
+                  'Token name (e.g., "--made-color-action" or "color-action")',
+              },
+              theme: {
+                type: "string",
+                description: "Resolve against this theme's values",
+              },
             },
+            required: ["name"],
           },
-          required: ["html"],
         },
-      },
-      {
-        name: "health_check",
-        description: "Check server health and component availability",
-        inputSchema: {
-          type: "object",
-          properties: {},
+        {
+          name: "list_components",
+          description: "List available MADE components with metadata",
+          inputSchema: {
+            type: "object",
+            properties: {
+              category: {
+                type: "string",
+                description:
+                  'Only list components in this category, as a path (e.g., "Components/Forms") or a single name (e.g., "Forms")',
+              },
+            },
+          },
         },
-      },
-      {
-        name: "version",
-        description:
-          "Get server and upstream MADE design system version information",
-        inputSchema: {
-          type: "object",
-          properties: {},
+        {
+          name: "list_categories",
+          description:
+            "List the component category tree built from Storybook titles, with component counts",
+          inputSchema: {
+            type: "object",
+            properties: {},
+          },
         },
-      },
-    ],
-  };
-});
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case "list_tokens":
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                await madeServer.listTokens(args?.scope as string),
-                null,
-                2
-              ),
-            },
-          ],
-        };
-
-      case "list_components":
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(await madeServer.listComponents(), null, 2),
-            },
-          ],
-        };
-
-      case "get_component":
-        if (!args?.name || typeof args.name !== "string") {
-          throw new Error("Component name is required");
-        }
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                await madeServer.getComponent(args.name),
-                null,
-                2
-              ),
-            },
-          ],
-        };
-
-      case "scaffold_component":
-        if (!args?.name || typeof args.name !== "string") {
-          throw new Error("Component name is required");
-        }
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                await madeServer.scaffoldComponent(
-                  args.name,
-                  args?.props as Record<string, any>
-                ),
-                null,
-                2
-              ),
-            },
-          ],
-        };
-
-      case "search_examples":
-        if (!args?.query || typeof args.query !== "string") {
-          throw new Error("Search query is required");
-        }
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                await madeServer.searchExamples(args.query),
-                null,
-                2
-              ),
+        {
+          name: "get_component",
+          description:
+            "Get detailed component information including HTML scaffold and usage",
+          inputSchema: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: 'Component name (e.g., "Button", "Card", "Alert") or canonical id (e.g., "components-button")',
+              },
             },
-          ],
-        };
-
-      case "lint_markup":
-        if (!args?.html || typeof args.html !== "string") {
-          throw new Error("HTML markup is required");
-        }
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                await madeServer.lintMarkup(args.html),
-                null,
-                2
-              ),
+            required: ["name"],
+          },
+        },
+        {
+          name: "scaffold_component",
+          description:
+            "Generate ready-to-use HTML scaffold for a component with props",
+          inputSchema: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Component name",
+              },
+              props: {
+                type: "object",
+                description: "Component properties and variants",
+                additionalProperties: true,
+              },
             },
-          ],
-        };
-
-      case "health_check":
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(await madeServer.healthCheck(), null, 2),
+            required: ["name"],
+          },
+        },
+        {
+          name: "search_examples",
+          description: "Search for component examples and usage patterns",
+          inputSchema: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "Search query for examples",
+              },
             },
-          ],
-        };
-
-      case "version":
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(await madeServer.version(), null, 2),
+            required: ["query"],
+          },
+        },
+        {
+          name: "lint_markup",
+          description:
+            "Validate HTML markup against MADE design system standards",
+          inputSchema: {
+            type: "object",
+            properties: {
+              html: {
+                type: "string",
+                description: "HTML markup to validate",
+              },
+              fix: {
+                type: "boolean",
+                description:
+                  "Also return the markup with mechanical fixes applied (missing type/alt/ARIA attributes, raw values that match a token, Bootstrap class names) and the edits that were made",
+              },
+              rules: {
+                type: "object",
+                description:
+                  "Severity per rule id, e.g. {\"a11y/heading-order\": \"off\", \"made/unknown-class\": \"error\"}; overrides .maderc.json",
+                additionalProperties: {
+                  type: "string",
+                  enum: ["error", "warning", "info", "off"],
+                },
+              },
             },
-          ],
-        };
-
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
-  } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    logger.error(`Tool ${name} failed:`, errorMessage);
-
-    return {
-      content: [
+            required: ["html"],
+          },
+        },
         {
-          type: "text",
-          text: JSON.stringify(
-            {
-              error: errorMessage,
-              tool: name,
-              timestamp: new Date().toISOString(),
+          name: "lint_css",
+          description:
+            "Lint CSS or SCSS against MADE tokens: unknown or deprecated --made-* variables, hard-coded values that should be tokens, overrides of MADE component classes and !important on made-* selectors",
+          inputSchema: {
+            type: "object",
+            properties: {
+              css: {
+                type: "string",
+                description: "Stylesheet to lint",
+              },
+              syntax: {
+                type: "string",
+                enum: ["css", "scss"],
+                description: 'Stylesheet syntax (default "css"); SCSS must not use nested rules',
+              },
+              rules: {
+                type: "object",
+                description:
+                  "Severity per rule id, e.g. {\"made/hard-coded-value\": \"off\", \"made/class-override\": \"error\"}; overrides .maderc.json",
+                additionalProperties: {
+                  type: "string",
+                  enum: ["error", "warning", "info", "off"],
+                },
+              },
             },
-            null,
-            2
-          ),
+            required: ["css"],
+          },
+        },
+        {
+          name: "health_check",
+          description: "Check server health and component availability",
+          inputSchema: {
+            type: "object",
+            properties: {},
+          },
+        },
+        {
+          name: "version",
+          description:
+            "Get server and upstream MADE design system version information",
+          inputSchema: {
+            type: "object",
+            properties: {},
+          },
         },
       ],
-      isError: true,
     };
-  }
-});
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      switch (name) {
+        case "list_tokens":
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await madeServer.listTokens(
+                    args?.scope as string,
+                    args?.theme as string
+                  ),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+
+        case "find_nearest_token":
+          if (!args?.value || typeof args.value !== "string") {
+            throw new Error("Value is required");
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await madeServer.findNearestToken(
+                    args.value,
+                    args?.category as string,
+                    args?.limit as number
+                  ),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+
+        case "compare_themes":
+          if (!args?.target || typeof args.target !== "string") {
+            throw new Error("Target theme is required");
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await madeServer.compareThemes(
+                    args.target,
+                    args?.base as string,
+                    args?.category as string
+                  ),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+
+        case "resolve_token":
+          if (!args?.name || typeof args.name !== "string") {
+            throw new Error("Token name is required");
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await madeServer.resolveToken(args.name, args?.theme as string),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+
+        case "list_components":
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await madeServer.listComponents(args?.category as string),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+
+        case "list_categories":
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(await madeServer.listCategories(), null, 2),
+              },
+            ],
+          };
+
+        case "get_component":
+          if (!args?.name || typeof args.name !== "string") {
+            throw new Error("Component name is required");
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await madeServer.getComponent(args.name),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+
+        case "scaffold_component":
+          if (!args?.name || typeof args.name !== "string") {
+            throw new Error("Component name is required");
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await madeServer.scaffoldComponent(
+                    args.name,
+                    args?.props as Record<string, any>
+                  ),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+
+        case "search_examples":
+          if (!args?.query || typeof args.query !== "string") {
+            throw new Error("Search query is required");
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await madeServer.searchExamples(args.query),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+
+        case "lint_markup":
+          if (!args?.html || typeof args.html !== "string") {
+            throw new Error("HTML markup is required");
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await madeServer.lintMarkup(
+                    args.html,
+                    args?.fix as boolean,
+                    args?.rules as LintRulesConfig
+                  ),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+
+        case "lint_css":
+          if (!args?.css || typeof args.css !== "string") {
+            throw new Error("CSS is required");
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  await madeServer.lintCSS(
+                    args.css,
+                    args?.syntax === "scss" ? "scss" : "css",
+                    args?.rules as LintRulesConfig
+                  ),
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+
+        case "health_check":
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(await madeServer.healthCheck(), null, 2),
+              },
+            ],
+          };
+
+        case "version":
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(await madeServer.version(), null, 2),
+              },
+            ],
+          };
+
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error(`Tool ${name} failed:`, errorMessage);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error: errorMessage,
+                tool: name,
+                timestamp: new Date().toISOString(),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+}
 
 // Start the server
-const transport = new StdioServerTransport();
-await server.connect(transport);
+const transportMode = process.env.MCP_TRANSPORT || "stdio";
+let shutdown: () => Promise<void>;
+
+if (transportMode === "http") {
+  const httpTransport = new HttpTransportServer({
+    port: parseInt(process.env.PORT || "3000", 10),
+    host: process.env.HOST || "0.0.0.0",
+    createServer,
+    healthCheck: () => madeServer.healthCheck(),
+  });
+  await httpTransport.start();
+  shutdown = () => httpTransport.stop();
+} else if (transportMode === "stdio") {
+  const server = createServer();
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  shutdown = () => server.close();
+} else {
+  throw new Error(
+    `Unknown MCP_TRANSPORT '${transportMode}' (expected 'stdio' or 'http')`
+  );
+}
 
-logger.info("MADE MCP Server started and ready for connections");
+logger.info(
+  `MADE MCP Server started and ready for connections (${transportMode})`
+);
 
 // Handle graceful shutdown
 process.on("SIGINT", async () => {
   logger.info("Shutting down MADE MCP Server...");
-  await server.close();
+  stopWatchingIndexes();
+  await shutdown();
   process.exit(0);
 });
 
 process.on("SIGTERM", async () => {
   logger.info("Shutting down MADE MCP Server...");
-  await server.close();
+  stopWatchingIndexes();
+  await shutdown();
   process.exit(0);
 });
@@ -0,0 +1,249 @@
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Buffer } from 'buffer';
+import { URL } from 'url';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { HealthCheckResponse } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  // Each MCP session gets its own protocol server sharing the same tool set
+  createServer: () => Server;
+  healthCheck: () => Promise<HealthCheckResponse>;
+  maxBodySize?: number;
+}
+
+export class HttpTransportServer {
+  private options: Required<HttpTransportOptions>;
+  private httpServer: NodeHttpServer | null = null;
+  private streamableSessions = new Map<string, { transport: StreamableHTTPServerTransport; server: Server }>();
+  private sseSessions = new Map<string, { transport: SSEServerTransport; server: Server }>();
+
+  constructor(options: HttpTransportOptions) {
+    this.options = {
+      maxBodySize: 4 * 1024 * 1024,
+      ...options
+    };
+  }
+
+  async start(): Promise<void> {
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logger.error('HTTP request failed:', error instanceof Error ? error.message : error);
+        if (!res.headersSent) {
+          this.sendJSONRPCError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    logger.info(`MCP HTTP transport listening on http://${this.options.host}:${this.getPort()}`);
+  }
+
+  async stop(): Promise<void> {
+    // Close every open session before shutting down the listener
+    for (const { server } of [...this.streamableSessions.values(), ...this.sseSessions.values()]) {
+      try {
+        await server.close();
+      } catch (error) {
+        logger.warn('Failed to close MCP session:', error instanceof Error ? error.message : error);
+      }
+    }
+    this.streamableSessions.clear();
+    this.sseSessions.clear();
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  getPort(): number {
+    const address = this.httpServer?.address();
+    return address && typeof address === 'object' ? address.port : this.options.port;
+  }
+
+  getSessionCount(): number {
+    return this.streamableSessions.size + this.sseSessions.size;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    switch (url.pathname) {
+      case '/health':
+        await this.handleHealth(req, res);
+        break;
+      case '/mcp':
+        await this.handleStreamableRequest(req, res);
+        break;
+      case '/sse':
+        await this.handleSSEConnect(req, res);
+        break;
+      case '/messages':
+        await this.handleSSEMessage(req, res, url.searchParams.get('sessionId'));
+        break;
+      default:
+        this.sendJSON(res, 404, { error: `Not found: ${url.pathname}` });
+    }
+  }
+
+  private async handleHealth(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      this.sendJSON(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const health = await this.options.healthCheck();
+    this.sendJSON(res, health.status === 'unhealthy' ? 503 : 200, {
+      ...health,
+      sessions: this.getSessionCount()
+    });
+  }
+
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = this.getHeader(req, 'mcp-session-id');
+    const body = req.method === 'POST' ? await this.readJSONBody(req, res) : undefined;
+    if (body === null) return;
+
+    // Existing session: route to its transport
+    if (sessionId) {
+      const session = this.streamableSessions.get(sessionId);
+      if (!session) {
+        this.sendJSONRPCError(res, 404, -32001, `Session not found: ${sessionId}`);
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // New session: only an initialize request may open one
+    if (req.method !== 'POST' || !this.containsInitializeRequest(body)) {
+      this.sendJSONRPCError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = this.options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.streamableSessions.set(id, { transport, server });
+        logger.debug(`Streamable HTTP session opened: ${id}`);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.streamableSessions.delete(transport.sessionId);
+        logger.debug(`Streamable HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleSSEConnect(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      this.sendJSON(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    // Legacy HTTP+SSE transport for clients without Streamable HTTP support
+    const server = this.options.createServer();
+    const transport = new SSEServerTransport('/messages', res);
+    this.sseSessions.set(transport.sessionId, { transport, server });
+    logger.debug(`SSE session opened: ${transport.sessionId}`);
+
+    transport.onclose = () => {
+      this.sseSessions.delete(transport.sessionId);
+      logger.debug(`SSE session closed: ${transport.sessionId}`);
+    };
+    res.on('close', () => {
+      this.sseSessions.delete(transport.sessionId);
+    });
+
+    await server.connect(transport);
+  }
+
+  private async handleSSEMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    if (req.method !== 'POST') {
+      this.sendJSON(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const session = sessionId ? this.sseSessions.get(sessionId) : undefined;
+    if (!session) {
+      this.sendJSON(res, 404, { error: `Session not found: ${sessionId ?? 'missing sessionId'}` });
+      return;
+    }
+
+    const body = await this.readJSONBody(req, res);
+    if (body === null) return;
+
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  private containsInitializeRequest(body: unknown): boolean {
+    if (Array.isArray(body)) {
+      return body.some(message => isInitializeRequest(message));
+    }
+    return isInitializeRequest(body);
+  }
+
+  /**
+   * Reads and parses a JSON request body. Returns null (after responding)
+   * when the body is too large or not valid JSON.
+   */
+  private async readJSONBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > this.options.maxBodySize) {
+        this.sendJSONRPCError(res, 413, -32000, 'Request body too large');
+        return null;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      this.sendJSONRPCError(res, 400, -32700, 'Parse error: Invalid JSON');
+      return null;
+    }
+  }
+
+  private getHeader(req: IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  private sendJSON(res: ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload, null, 2));
+  }
+
+  private sendJSONRPCError(res: ServerResponse, status: number, code: number, message: string): void {
+    this.sendJSON(res, status, {
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null
+    });
+  }
+}
@@ -5,19 +5,132 @@ export interface MADEToken {
   value: string;
   category: 'color' | 'spacing' | 'typography' | 'shadow' | 'radius' | 'breakpoint' | 'time' | 'other';
   description?: string;
+  // Theme the value belongs to ('dark', 'b2b'...); unset for the default :root value
+  theme?: string;
+  // W3C design token $type (color, dimension, shadow, typography...) when known
+  type?: string;
+  // true, or a message such as 'Use --made-color-action'
+  deprecated?: boolean | string;
+  source?: SourceLocation;
+  // Value with every var() reference substituted
+  resolvedValue?: string;
+  // Tokens followed when the value is a pure alias, nearest first
+  aliasChain?: string[];
+  // Tokens whose value references this one
+  usedBy?: string[];
+  // Resolved value parsed into numbers, when it is a color, dimension, duration, number or font stack
+  parsed?: ParsedTokenValue;
+}
+
+export interface ColorValue {
+  kind: 'color';
+  // #rrggbb, or #rrggbbaa when translucent
+  hex: string;
+  rgb: { r: number; g: number; b: number };
+  alpha: number;
+  // Lightness 0-1, chroma, hue in degrees
+  oklch: { l: number; c: number; h: number };
+}
+
+export interface DimensionValue {
+  kind: 'dimension';
+  value: number;
+  unit: string;
+  // Equivalents for absolute and font-relative units (1rem = 16px)
+  px?: number;
+  rem?: number;
+}
+
+export interface DurationValue {
+  kind: 'duration';
+  value: number;
+  unit: 'ms' | 's';
+  ms: number;
+}
+
+export interface FontStackValue {
+  kind: 'fontFamily';
+  families: string[];
+}
+
+export interface NumberValue {
+  kind: 'number';
+  value: number;
+}
+
+export type ParsedTokenValue = ColorValue | DimensionValue | DurationValue | FontStackValue | NumberValue;
+
+// Where an indexed entity is defined in the upstream MADE repository
+export interface SourceLocation {
+  // Path relative to the repository root
+  path: string;
+  startLine?: number;
+  endLine?: number;
+  upstreamCommit?: string;
+  upstreamRef?: string;
+  permalink?: string;
+}
+
+// A class defined in made.css (made-* component classes and utilities)
+export interface MADEClass {
+  name: string;
+  // Every selector the class appears in, e.g. '.made-btn:hover', '.made-card .made-btn'
+  selectors: string[];
+  // Declarations of the rules whose selector is the bare class
+  declarations: Record<string, string>;
+  // Position of its last bare-class rule in made.css; later rules win the cascade
+  order?: number;
+  source?: SourceLocation;
+}
+
+export interface ComponentProp {
+  type: string;
+  default?: unknown;
+  control?: string;
+  options?: unknown[];
+  description?: string;
+  required?: boolean;
 }
 
 export interface MADEComponent {
+  // Canonical id derived from the Storybook title path, e.g. 'components-button'
+  id?: string;
   name: string;
+  // Title path without the component name, e.g. 'Components/Forms'
+  category?: string;
+  // Full title path segments, e.g. ['Components', 'Forms', 'Input']
+  path?: string[];
   description: string;
   tags: string[];
   variants: Record<string, string[]>;
-  props: Record<string, any>;
+  props: Record<string, ComponentProp>;
   a11yNotes?: string[];
+  docs?: ComponentDocs;
   htmlScaffold: string;
   cssClasses: string[];
   cssVarsUsed: string[];
   examples: ComponentExample[];
+  // Story and MDX files documenting the component
+  sources?: SourceLocation[];
+}
+
+export interface ComponentDocs {
+  overview?: string;
+  usage?: string;
+  accessibility?: string[];
+  dos?: string[];
+  donts?: string[];
+  propsTable?: ComponentDocsProp[];
+  // Any other headed sections, keyed by heading
+  sections?: Record<string, string>;
+}
+
+export interface ComponentDocsProp {
+  name: string;
+  type?: string;
+  default?: string;
+  description?: string;
+  required?: boolean;
 }
 
 export interface ComponentExample {
@@ -25,6 +138,7 @@ export interface ComponentExample {
   html: string;
   description?: string;
   props?: Record<string, any>;
+  source?: SourceLocation;
 }
 
 export interface SearchResult {
@@ -33,16 +147,53 @@ export interface SearchResult {
   html: string;
   sourcePath: string;
   upstreamRef: string;
+  source?: SourceLocation;
 }
 
 export interface LintIssue {
   type: 'error' | 'warning' | 'info';
   message: string;
+  // Rule that reported the issue, e.g. 'a11y/img-alt'
+  ruleId?: string;
   fixSuggestion?: string;
   line?: number;
   column?: number;
+  // End of the offending source, exclusive
+  endLine?: number;
+  endColumn?: number;
+  // Mechanical fix for the issue, when there is one
+  fix?: LintEdit;
+}
+
+export interface LintEdit {
+  // Offsets into the linted source (end exclusive) and the same range as 1-based lines/columns
+  range: {
+    startOffset: number;
+    endOffset: number;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+  };
+  replacement: string;
+  description: string;
+}
+
+export interface LintCSSResponse {
+  valid: boolean;
+  issues: LintIssue[];
+}
+
+export interface LintRuleSummary {
+  id: string;
+  category: 'structure' | 'made' | 'accessibility';
+  description: string;
 }
 
+// Severity per rule id; 'off' disables the rule
+export type LintRuleSeverity = LintIssue['type'] | 'off';
+export type LintRulesConfig = Record<string, LintRuleSeverity>;
+
 export interface IndexMeta {
   version: string;
   upstreamCommit: string;
@@ -50,17 +201,46 @@ export interface IndexMeta {
   buildTime: string;
   componentsCount: number;
   tokensCount: number;
+  classesCount?: number;
+  // e.g. https://github.com/Mastercard/made/blob/{commit}/{path}#L{startLine}-L{endLine}
+  permalinkTemplate?: string;
 }
 
 // Zod schemas for MCP tool validation
 export const ListTokensSchema = z.object({
-  scope: z.string().optional()
+  scope: z.string().optional(),
+  theme: z.string().optional()
+});
+
+export const CompareThemesSchema = z.object({
+  base: z.string().optional(),
+  target: z.string(),
+  category: z.string().optional()
+});
+
+export const FindNearestTokenSchema = z.object({
+  value: z.string(),
+  category: z.string().optional(),
+  limit: z.number().optional()
+});
+
+export const LintRulesSchema = z.record(z.string(), z.enum(['error', 'warning', 'info', 'off']));
+
+export const LintCSSSchema = z.object({
+  css: z.string(),
+  syntax: z.enum(['css', 'scss']).optional(),
+  rules: LintRulesSchema.optional()
 });
 
 export const GetComponentSchema = z.object({
   name: z.string()
 });
 
+export const ResolveTokenSchema = z.object({
+  name: z.string(),
+  theme: z.string().optional()
+});
+
 export const ScaffoldComponentSchema = z.object({
   name: z.string(),
   props: z.record(z.string(), z.any()).optional()
@@ -71,7 +251,14 @@ export const SearchExamplesSchema = z.object({
 });
 
 export const LintMarkupSchema = z.object({
-  html: z.string()
+  html: z.string(),
+  fix: z.boolean().optional(),
+  rules: LintRulesSchema.optional()
+});
+
+// .maderc.json
+export const MadeConfigSchema = z.object({
+  rules: LintRulesSchema.optional()
 });
 
 // MCP Tool Response Types
@@ -80,20 +267,87 @@ export interface ListTokensResponse {
   meta?: {
     totalCount: number;
     filteredCount: number;
+    theme?: string;
+    themes?: string[];
   };
 }
 
+export interface ResolveTokenResponse {
+  name: string;
+  value: string;
+  resolvedValue: string;
+  category: MADEToken['category'];
+  isAlias: boolean;
+  // The token itself followed by each alias it resolves through
+  chain: Array<{ name: string; value: string }>;
+  usedBy: string[];
+  theme?: string;
+  unresolvedReferences?: string[];
+  note?: string;
+}
+
+export interface CompareThemesResponse {
+  base: string;
+  target: string;
+  // Tokens whose resolved value differs
+  changed: Array<{
+    name: string;
+    category: MADEToken['category'];
+    baseValue: string;
+    targetValue: string;
+    baseResolvedValue: string;
+    targetResolvedValue: string;
+  }>;
+  onlyInBase: string[];
+  onlyInTarget: string[];
+  unchangedCount: number;
+}
+
+export interface NearestTokenMatch {
+  name: string;
+  value: string;
+  resolvedValue: string;
+  category: MADEToken['category'];
+  // ΔE2000 for colors, px / ms / unit difference otherwise; 0 is an exact match
+  distance: number;
+  metric: 'deltaE2000' | 'px' | 'ms' | 'unit' | 'number' | 'fontFamily';
+  explanation: string;
+}
+
+export interface FindNearestTokenResponse {
+  input: string;
+  parsed: ParsedTokenValue;
+  matches: NearestTokenMatch[];
+}
+
 export interface ListComponentsResponse {
   components: Array<{
+    id?: string;
     name: string;
+    category?: string;
     description: string;
     tags: string[];
     variants: Record<string, string[]>;
-    props: Record<string, any>;
+    props: Record<string, ComponentProp>;
     a11yNotes?: string[];
   }>;
 }
 
+export interface ComponentCategory {
+  name: string;
+  path: string;
+  // Components in this category and all of its subcategories
+  componentCount: number;
+  // Components directly in this category
+  components: string[];
+  children: ComponentCategory[];
+}
+
+export interface ListCategoriesResponse {
+  categories: ComponentCategory[];
+  uncategorized: string[];
+}
+
 export interface GetComponentResponse extends MADEComponent {
   html: string;
   classes: string[];
@@ -121,6 +375,9 @@ export interface LintMarkupResponse {
   valid: boolean;
   issues: LintIssue[];
   suggestions?: string[];
+  // With `fix: true`: the markup with every fix applied, and the edits that produced it
+  fixedHtml?: string;
+  edits?: LintEdit[];
 }
 
 export interface HealthCheckResponse {
@@ -135,6 +392,49 @@ export interface HealthCheckResponse {
   }>;
 }
 
+export interface MADEResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface MADEResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ReadResourceResponse {
+  contents: Array<{
+    uri: string;
+    mimeType: string;
+    text: string;
+  }>;
+}
+
+export interface MADEPrompt {
+  name: string;
+  description: string;
+  arguments: Array<{
+    name: string;
+    description: string;
+    required: boolean;
+  }>;
+}
+
+export interface GetPromptResponse {
+  description: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: {
+      type: 'text';
+      text: string;
+    };
+  }>;
+}
+
 export interface VersionResponse {
   server: string;
   upstream: string;
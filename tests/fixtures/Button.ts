@@ -0,0 +1,17 @@
+export interface ButtonProps {
+  /** Button visual variant */
+  variant?: 'primary' | 'secondary' | 'ghost';
+  /** Button size
+   * @default 'md'
+   */
+  size?: 'sm' | 'md' | 'lg';
+  /** Disabled state */
+  disabled?: boolean;
+  /** Button label */
+  children: string;
+  /** Click handler */
+  onClick?: () => void;
+}
+
+export const Button = ({ variant = 'primary', size = 'md', disabled = false, children }: ButtonProps): string =>
+  `<button class="made-btn made-btn-${variant} made-btn-${size}" type="button"${disabled ? ' disabled' : ''}>${children}</button>`;
@@ -0,0 +1,53 @@
+import type { Meta, StoryObj } from '@storybook/html';
+
+type AlertArgs = {
+  variant: 'info' | 'success' | 'error';
+  message: string;
+  dismissible?: boolean;
+  actions?: string[];
+};
+
+const meta = {
+  title: 'Components/Feedback/Alert',
+  args: {
+    variant: 'info',
+    message: 'Heads up!',
+  },
+  render: ({ variant, message, dismissible, actions = [] }) => `
+    <div class="made-alert made-alert-${variant}${dismissible ? ' made-alert-dismissible' : ''}" role="alert">
+      ${message}
+      ${actions.map(action => `<button class="made-btn made-btn-sm" type="button">${action}</button>`).join('')}
+      ${dismissible ? '<button class="made-alert-close" type="button" aria-label="Close"></button>' : ''}
+    </div>
+  `,
+} satisfies Meta<AlertArgs>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Info: Story = {};
+
+export const Success: Story = {
+  name: 'Success message',
+  args: {
+    variant: 'success',
+    message: 'Saved',
+    dismissible: true,
+    actions: ['Undo', 'View'],
+  },
+};
+
+export const Error: Story = {
+  ...Success,
+  args: {
+    ...Success.args,
+    variant: 'error',
+  },
+};
+
+const Template = (args: AlertArgs) => `<div class="made-alert made-alert-${args.variant}">${args.message}</div>`;
+
+export const Inline = Template.bind({});
+Inline.args = {
+  message: 'Inline alert',
+};
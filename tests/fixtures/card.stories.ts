@@ -0,0 +1,25 @@
+import type { Meta, StoryObj } from '@storybook/html';
+
+type CardArgs = {
+  title: string;
+  content: string;
+};
+
+const meta = {
+  title: 'Components/Card',
+  args: {
+    title: 'Title',
+    content: 'Card content',
+  },
+  render: ({ title, content }) => `
+    <div class="made-card">
+      <div class="made-card-header">${title}</div>
+      <div class="made-card-body">${content}</div>
+    </div>
+  `,
+} satisfies Meta<CardArgs>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Default: Story = {};
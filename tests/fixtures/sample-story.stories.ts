@@ -35,11 +35,11 @@ export const Primary: Story = {
     variant: 'primary',
     children: 'Primary Button',
   },
-  render: (args) => \`
+  render: (args) => `
     <button class="made-btn made-btn-primary" type="button">
-      \${args.children || 'Primary Button'}
+      ${args.children || 'Primary Button'}
     </button>
-  \`,
+  `,
 };
 
 // Secondary button story  
@@ -48,11 +48,11 @@ export const Secondary: Story = {
     variant: 'secondary',
     children: 'Secondary Button',
   },
-  render: (args) => \`
+  render: (args) => `
     <button class="made-btn made-btn-secondary" type="button">
-      \${args.children || 'Secondary Button'}
+      ${args.children || 'Secondary Button'}
     </button>
-  \`,
+  `,
 };
 
 // Small button story
@@ -62,11 +62,11 @@ export const Small: Story = {
     size: 'sm',
     children: 'Small Button',
   },
-  render: (args) => \`
+  render: (args) => `
     <button class="made-btn made-btn-primary made-btn-sm" type="button">
-      \${args.children || 'Small Button'}
+      ${args.children || 'Small Button'}
     </button>
-  \`,
+  `,
 };
 
 // Large button story
@@ -76,11 +76,11 @@ export const Large: Story = {
     size: 'lg',
     children: 'Large Button',
   },
-  render: (args) => \`
+  render: (args) => `
     <button class="made-btn made-btn-primary made-btn-lg" type="button">
-      \${args.children || 'Large Button'}
+      ${args.children || 'Large Button'}
     </button>
-  \`,
+  `,
 };
 
 // Disabled button story
@@ -90,9 +90,9 @@ export const Disabled: Story = {
     disabled: true,
     children: 'Disabled Button',
   },
-  render: (args) => \`
+  render: (args) => `
     <button class="made-btn made-btn-primary" type="button" disabled>
-      \${args.children || 'Disabled Button'}
+      ${args.children || 'Disabled Button'}
     </button>
-  \`,
+  `,
 };
\ No newline at end of file
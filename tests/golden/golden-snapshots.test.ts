@@ -24,6 +24,7 @@ describe('Golden Snapshot Tests', () => {
           description: 'Primary brand color'
         }
       ],
+      getClasses: () => [],
       getComponents: () => [
         {
           name: 'Button',
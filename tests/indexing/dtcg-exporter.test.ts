@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { DTCGExporter } from '../../src/indexing/dtcg-exporter.js';
+import { DTCGParser } from '../../src/parsers/dtcg-parser.js';
+import { MADEToken } from '../../src/types.js';
+
+describe('DTCGExporter', () => {
+  const exporter = new DTCGExporter();
+
+  const tokens: MADEToken[] = [
+    { name: '--made-color-blue-500', value: '#0055FF', category: 'color', description: 'Brand blue' },
+    { name: '--made-color-action', value: 'var(--made-color-blue-500)', category: 'color', resolvedValue: '#0055FF' },
+    { name: '--made-spacing-md', value: '1rem', category: 'spacing' },
+    { name: '--made-shadow-sm', value: '0 1px 2px 0 rgba(0, 0, 0, 0.2)', category: 'shadow' },
+    { name: '--made-font-family-base', value: '"Mark Offc For MC", Arial, sans-serif', category: 'typography' },
+    { name: '--made-font-heading', value: '700 24px/1.25 var(--made-font-family-base)', category: 'typography', type: 'typography' },
+    { name: '--made-duration-fast', value: '150ms', category: 'time' }
+  ];
+
+  it('should nest tokens in groups and convert aliases', () => {
+    const document = exporter.export(tokens) as any;
+
+    expect(document.color.blue['500']).toEqual({ $value: '#0055FF', $type: 'color', $description: 'Brand blue' });
+    expect(document.color.action).toEqual({ $value: '{color.blue.500}', $type: 'color' });
+    expect(document.spacing.md).toEqual({ $value: '1rem', $type: 'dimension' });
+    expect(document.duration.fast).toEqual({ $value: '150ms', $type: 'duration' });
+  });
+
+  it('should split composite values', () => {
+    const document = exporter.export(tokens) as any;
+
+    expect(document.shadow.sm).toEqual({
+      $type: 'shadow',
+      $value: { color: 'rgba(0, 0, 0, 0.2)', offsetX: '0', offsetY: '1px', blur: '2px', spread: '0' }
+    });
+    expect(document.font.family.base.$value).toEqual(['Mark Offc For MC', 'Arial', 'sans-serif']);
+    expect(document.font.heading).toEqual({
+      $type: 'typography',
+      $value: { fontFamily: '{font.family.base}', fontSize: '24px', fontWeight: 700, lineHeight: 1.25 }
+    });
+  });
+
+  it('should keep tokens that share a prefix with a group', () => {
+    const document = exporter.export([
+      { name: '--made-color-blue', value: '#0000FF', category: 'color' },
+      { name: '--made-color-blue-500', value: '#0055FF', category: 'color' }
+    ]) as any;
+
+    expect(document.color.blue.$value).toBe('#0000FF');
+    expect(document.color['blue-500'].$value).toBe('#0055FF');
+  });
+
+  it('should round-trip through the DTCG parser', () => {
+    const parser = new DTCGParser();
+    const parsed = parser.parse(exporter.export(tokens) as Record<string, unknown>, 'tokens.json');
+
+    tokens.forEach(token => {
+      expect(parsed.find(entry => entry.name === token.name)?.value).toBe(token.value);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TokenGraph } from '../../src/indexing/token-graph.js';
+import { MADEToken } from '../../src/types.js';
+
+describe('TokenGraph', () => {
+  let graph: TokenGraph;
+
+  const tokens: MADEToken[] = [
+    { name: '--made-color-blue-500', value: '#0055FF', category: 'color' },
+    { name: '--made-color-brand', value: 'var(--made-color-blue-500)', category: 'color' },
+    { name: '--made-color-action', value: 'var(--made-color-brand)', category: 'color' },
+    { name: '--made-spacing-md', value: '1rem', category: 'spacing' },
+    { name: '--made-shadow-focus', value: '0 0 0 var(--made-spacing-md) var(--made-color-action)', category: 'shadow' },
+    { name: '--made-color-link', value: 'var(--made-color-missing, var(--made-color-blue-500))', category: 'color' },
+    { name: '--made-loop-a', value: 'var(--made-loop-b)', category: 'other' },
+    { name: '--made-loop-b', value: 'var(--made-loop-a)', category: 'other' }
+  ];
+
+  beforeEach(async () => {
+    graph = new TokenGraph();
+    await graph.initialize(tokens);
+  });
+
+  const find = (name: string) => graph.getTokens().find(token => token.name === name);
+
+  it('should resolve alias chains to the final value', () => {
+    expect(find('--made-color-action')).toMatchObject({
+      value: 'var(--made-color-brand)',
+      resolvedValue: '#0055FF',
+      aliasChain: ['--made-color-brand', '--made-color-blue-500']
+    });
+    expect(find('--made-color-blue-500')?.aliasChain).toBeUndefined();
+  });
+
+  it('should parse the resolved value', () => {
+    expect(find('--made-color-action')?.parsed).toMatchObject({ kind: 'color', hex: '#0055ff' });
+    expect(find('--made-spacing-md')?.parsed).toMatchObject({ kind: 'dimension', px: 16 });
+    expect(find('--made-loop-a')?.parsed).toBeUndefined();
+  });
+
+  it('should substitute references inside composite values', () => {
+    expect(find('--made-shadow-focus')?.resolvedValue).toBe('0 0 0 1rem #0055FF');
+    expect(find('--made-shadow-focus')?.aliasChain).toBeUndefined();
+  });
+
+  it('should use var() fallbacks for unknown tokens', () => {
+    expect(find('--made-color-link')?.resolvedValue).toBe('#0055FF');
+    expect(graph.resolve('color-link')?.unresolvedReferences).toEqual(['--made-color-missing']);
+  });
+
+  it('should record reverse references', () => {
+    expect(find('--made-color-blue-500')?.usedBy).toEqual(['--made-color-brand', '--made-color-link']);
+    expect(find('--made-color-action')?.usedBy).toEqual(['--made-shadow-focus']);
+    expect(find('--made-spacing-md')?.usedBy).toEqual(['--made-shadow-focus']);
+  });
+
+  it('should not loop on circular references', () => {
+    expect(find('--made-loop-a')?.resolvedValue).toContain('var(');
+    expect(find('--made-loop-a')?.aliasChain).toEqual(['--made-loop-b']);
+  });
+
+  it('should return the chain and point base values at semantic tokens', () => {
+    const action = graph.resolve('--made-color-action');
+    expect(action?.isAlias).toBe(true);
+    expect(action?.chain).toEqual([
+      { name: '--made-color-action', value: 'var(--made-color-brand)' },
+      { name: '--made-color-brand', value: 'var(--made-color-blue-500)' },
+      { name: '--made-color-blue-500', value: '#0055FF' }
+    ]);
+
+    const base = graph.resolve('made-color-blue-500');
+    expect(base?.isAlias).toBe(false);
+    expect(base?.note).toContain('--made-color-brand');
+    expect(graph.resolve('--made-unknown')).toBeUndefined();
+  });
+
+  describe('themes', () => {
+    const themed: MADEToken[] = [
+      ...tokens,
+      { name: '--made-color-blue-500', value: '#003399', category: 'color', theme: 'b2b' },
+      { name: '--made-color-brand', value: '#FFFFFF', category: 'color', theme: 'dark' },
+      { name: '--made-color-glow', value: 'var(--made-color-brand)', category: 'color', theme: 'dark' }
+    ];
+
+    beforeEach(async () => {
+      await graph.initialize(themed);
+    });
+
+    it('should keep unthemed values in the default set', () => {
+      expect(graph.getThemes()).toEqual(['b2b', 'dark']);
+      expect(graph.getThemeTokens().find(token => token.name === '--made-color-blue-500')?.value).toBe('#0055FF');
+      expect(graph.resolve('color-action')?.resolvedValue).toBe('#0055FF');
+    });
+
+    it('should resolve aliases against the theme overrides', () => {
+      expect(graph.resolve('color-action', 'b2b')?.resolvedValue).toBe('#003399');
+      expect(graph.resolve('color-action', 'dark')?.resolvedValue).toBe('#FFFFFF');
+      expect(graph.getThemeTokens('dark').find(token => token.name === '--made-color-glow')?.resolvedValue).toBe('#FFFFFF');
+    });
+
+    it('should compare themes by resolved value', () => {
+      const comparison = graph.compareThemes(undefined, 'b2b');
+
+      expect(comparison.changed.map(change => change.name).sort()).toEqual([
+        '--made-color-action',
+        '--made-color-blue-500',
+        '--made-color-brand',
+        '--made-color-glow',
+        '--made-color-link',
+        '--made-shadow-focus'
+      ]);
+      expect(graph.compareThemes('default', 'dark').changed.find(change => change.name === '--made-color-brand')).toMatchObject({
+        baseValue: 'var(--made-color-blue-500)',
+        targetValue: '#FFFFFF',
+        baseResolvedValue: '#0055FF'
+      });
+    });
+  });
+});
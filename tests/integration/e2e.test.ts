@@ -84,6 +84,43 @@ describe('End-to-End Integration Tests', () => {
       expect(meta).toBeDefined();
       expect(meta!.upstreamRef).toBe('main');
     });
+
+    it('should pin token and example sources to the indexed commit', async () => {
+      const repoPath = path.join(testDataDir, 'fixtures');
+      await indexManager.buildIndexes(repoPath, 'main', 'abc123test');
+      
+      const token = indexManager.getTokens().find(t => t.name === '--made-color-primary-500');
+      expect(token!.source).toEqual({
+        path: 'packages/made-css/dist/3.0.0/made-css-variables.css',
+        startLine: 4,
+        endLine: 4,
+        upstreamCommit: 'abc123test',
+        upstreamRef: 'main',
+        permalink: 'https://github.com/Mastercard/made/blob/abc123test/packages/made-css/dist/3.0.0/made-css-variables.css#L4-L4'
+      });
+      
+      const alert = indexManager.getComponents().find(c => c.name === 'Alert');
+      const info = alert!.examples.find(ex => ex.title === 'Info');
+      expect(info!.source!.permalink).toBe('https://github.com/Mastercard/made/blob/abc123test/alert.stories.ts#L28-L28');
+      
+      const primary = indexManager.getClasses().find(cls => cls.name === 'made-btn-primary');
+      expect(primary!.source!.permalink).toBe('https://github.com/Mastercard/made/blob/abc123test/packages/made-css/dist/3.0.0/made.css#L52-L55');
+    });
+
+    it('should persist the class index with selectors and declarations', async () => {
+      const repoPath = path.join(testDataDir, 'fixtures');
+      await indexManager.buildIndexes(repoPath, 'main', 'abc123test');
+      
+      const classes = await fs.readJson('./data/indexes/classes.json');
+      const primary = classes.find((cls: { name: string }) => cls.name === 'made-btn-primary');
+      
+      expect(primary.selectors).toEqual(['.made-btn-primary', '.made-btn-primary:hover']);
+      expect(primary.declarations).toEqual({
+        'background-color': 'var(--made-color-primary-500)',
+        color: 'var(--made-color-white)'
+      });
+      expect(indexManager.getIndexMeta()!.classesCount).toBe(classes.length);
+    });
   });
 
   describe('MCP Server Integration', () => {
@@ -143,6 +180,25 @@ describe('End-to-End Integration Tests', () => {
       expect(errors.length).toBe(0);
     });
 
+    it('should report text contrast from the indexed classes and tokens', async () => {
+      // White on the #FF5F00 primary is made.css's own pair: a warning, not an error in the markup
+      const scaffoldResult = await server.scaffoldComponent('Button', { variant: 'primary' });
+      const generated = await server.lintMarkup(scaffoldResult.html);
+
+      expect(generated.issues.filter(issue => issue.ruleId === 'a11y/color-contrast')).toEqual([expect.objectContaining({
+        type: 'warning',
+        message: 'Text contrast 3.04:1 is below 4.5:1 (#FFFFFF on #FF5F00); both colors come from MADE classes'
+      })]);
+
+      const authored = await server.lintMarkup('<p style="color: var(--made-color-primary-500)">Sale</p>');
+
+      expect(authored.valid).toBe(false);
+      expect(authored.issues.filter(issue => issue.ruleId === 'a11y/color-contrast')).toEqual([expect.objectContaining({
+        type: 'error',
+        message: 'Text contrast 3.04:1 is below 4.5:1 (#FF5F00 on #FFFFFF)'
+      })]);
+    });
+
     it('should provide comprehensive health status', async () => {
       const health = await server.healthCheck();
       
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CssLinter } from '../../src/linting/css-linter.js';
+import { MADEToken } from '../../src/types.js';
+
+describe('CssLinter', () => {
+  let linter: CssLinter;
+
+  const tokens: MADEToken[] = [
+    { name: '--made-color-primary-500', value: '#FF5F00', category: 'color' },
+    { name: '--made-color-brand', value: '#FF5F00', category: 'color', deprecated: 'Use --made-color-primary-500' },
+    { name: '--made-spacing-md', value: '1rem', category: 'spacing' }
+  ];
+
+  beforeEach(async () => {
+    linter = new CssLinter();
+    await linter.initialize(tokens);
+  });
+
+  it('should report unknown and deprecated MADE variables', () => {
+    const issues = linter.lint('.promo {\n  color: var(--made-color-brand);\n  border-color: var(--made-color-nope);\n}');
+
+    expect(issues).toEqual([
+      {
+        type: 'warning',
+        ruleId: 'made/deprecated-token',
+        message: 'Deprecated MADE token: --made-color-brand',
+        fixSuggestion: 'Use --made-color-primary-500',
+        line: 2,
+        column: 3,
+        endLine: 2,
+        endColumn: 33
+      },
+      expect.objectContaining({ type: 'error', message: 'Unknown MADE token: --made-color-nope', line: 3 })
+    ]);
+  });
+
+  it('should report raw values that should be tokens', () => {
+    const [issue] = linter.lint('.promo { padding: 16px; }');
+
+    expect(issue).toMatchObject({ type: 'warning', fixSuggestion: 'Replace 16px with var(--made-spacing-md)', line: 1, column: 10 });
+    expect(linter.lint('.promo { padding: 16px; }', 'css', { 'made/hard-coded-value': 'off' })).toEqual([]);
+  });
+
+  it('should report overrides of MADE classes and !important on them', () => {
+    const issues = linter.lint(`
+.made-btn { --made-btn-bg: var(--made-color-primary-500); }
+.checkout .made-btn-primary { text-transform: uppercase !important; }`);
+
+    expect(issues.map(issue => [issue.type, issue.message, issue.line])).toEqual([
+      ['warning', 'Rule overrides MADE component class .made-btn-primary', 3],
+      ['error', '!important on text-transform fights the MADE styles of .made-btn-primary', 3]
+    ]);
+  });
+
+  it('should accept flat SCSS and report nested rules', () => {
+    const scss = `@use 'tokens';\n$gap: 4px; // spacing\n.promo {\n  color: var(--made-color-primary-500);\n}`;
+    expect(linter.lint(scss, 'scss')).toEqual([]);
+
+    const [issue] = linter.lint('.promo { .title { color: red; } }', 'scss');
+    expect(issue.type).toBe('error');
+    expect(issue.fixSuggestion).toContain('Nested SCSS rules');
+  });
+});
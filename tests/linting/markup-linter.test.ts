@@ -0,0 +1,485 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MarkupLinter } from '../../src/linting/markup-linter.js';
+import { MADEToken, MADEClass, MADEComponent, LintIssue } from '../../src/types.js';
+
+describe('MarkupLinter', () => {
+  let linter: MarkupLinter;
+
+  const tokens: MADEToken[] = [
+    { name: '--made-color-primary-500', value: '#FF5F00', category: 'color' },
+    { name: '--made-color-neutral-100', value: '#F5F5F5', category: 'color' },
+    { name: '--made-spacing-md', value: '1rem', category: 'spacing' },
+    { name: '--made-font-size-sm', value: '0.875rem', category: 'typography' },
+    { name: '--made-radius-md', value: '8px', category: 'radius' },
+    { name: '--made-shadow-sm', value: '0 1px 2px rgba(0, 0, 0, 0.1)', category: 'shadow' }
+  ];
+
+  const classes: MADEClass[] = ['made-btn', 'made-btn-primary', 'made-btn-secondary', 'made-card', 'made-modal'].map(name => ({
+    name,
+    selectors: [`.${name}`],
+    declarations: {}
+  }));
+
+  beforeEach(async () => {
+    linter = new MarkupLinter();
+    await linter.initialize(tokens, classes);
+  });
+
+  const hardCoded = async (html: string) =>
+    (await linter.lint(`<main>${html}</main>`)).filter(issue => issue.message.startsWith('Hard-coded'));
+
+  describe('hard-coded values', () => {
+    it('should flag inline literals that match a token', async () => {
+      const issues = await hardCoded('<div style="color: #ff5f00; padding: 0 16px; border-radius: 8px">Hi</div>');
+
+      expect(issues.map(issue => issue.fixSuggestion)).toEqual([
+        'Replace #ff5f00 with var(--made-color-primary-500)',
+        'Replace 16px with var(--made-spacing-md)',
+        'Replace 8px with var(--made-radius-md)'
+      ]);
+      expect(issues.every(issue => issue.type === 'warning')).toBe(true);
+    });
+
+    it('should check <style> blocks and whole shadows', async () => {
+      const issues = await hardCoded(`
+        <style>
+          .promo { box-shadow: 0 1px 2px rgba(0,0,0,0.1); }
+          @media (min-width: 600px) { .promo { font-size: 14px; } }
+        </style>`);
+
+      expect(issues.map(issue => issue.fixSuggestion)).toEqual([
+        'Replace 0 1px 2px rgba(0,0,0,0.1) with var(--made-shadow-sm)',
+        'Replace 14px with var(--made-font-size-sm)'
+      ]);
+    });
+
+    it('should suggest close tokens and ignore unrelated values', async () => {
+      const issues = await hardCoded('<div style="background-color: #f4f4f4; margin: 40px; width: 16px; color: var(--made-color-primary-500)">Hi</div>');
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        type: 'info',
+        fixSuggestion: 'Use var(--made-color-neutral-100) instead of #f4f4f4'
+      });
+      expect(issues[0].message).toContain('ΔE');
+    });
+  });
+
+  describe('classes', () => {
+    const unknown = async (html: string) =>
+      (await linter.lint(`<main>${html}</main>`)).filter(issue => issue.ruleId === 'made/unknown-class');
+
+    it('should only accept classes from the class index', async () => {
+      const issues = await unknown('<div class="made-card made-btn-primay made-nope">Hi</div>');
+
+      expect(issues.map(issue => [issue.message, issue.fixSuggestion])).toEqual([
+        ['Unknown MADE class: made-btn-primay', 'Did you mean made-btn-primary?'],
+        ['Unknown MADE class: made-nope', 'Verify this class exists in the current MADE design system version']
+      ]);
+    });
+
+    it('should skip the check without a class index', async () => {
+      await linter.initialize(tokens);
+
+      expect(await unknown('<div class="made-nope">Hi</div>')).toEqual([]);
+    });
+  });
+
+  describe('structure', () => {
+    const component = (name: string, examples: string[]): MADEComponent => ({
+      name,
+      description: '',
+      tags: [],
+      variants: {},
+      props: {},
+      htmlScaffold: examples[0],
+      cssClasses: [],
+      cssVarsUsed: [],
+      examples: examples.map((html, index) => ({ title: `${name} ${index + 1}`, html }))
+    });
+
+    const structure = async (html: string) => {
+      await linter.initialize(tokens, classes, [
+        component('Card', [
+          '<div class="made-card"><div class="made-card-header">Title</div><div class="made-card-body">Text</div></div>',
+          '<div class="made-card"><div class="made-card-body">Text</div><div class="made-card-footer">Actions</div></div>'
+        ]),
+        component('List', [
+          '<ul class="made-list"><li class="made-list-item">One</li><li class="made-list-item">Two</li></ul>',
+          '<ol class="made-list made-list-numbered"><li class="made-list-item">One</li></ol>'
+        ])
+      ]);
+      const issues = await linter.lint(`<main>${html}</main>`);
+      return issues.filter(issue => issue.ruleId?.startsWith('made/') && issue.ruleId !== 'made/unknown-class');
+    };
+
+    it('should report sub-elements outside their component', async () => {
+      const issues = await structure('<div class="made-card-body">Text</div><li class="made-list-item">One</li>');
+
+      expect(issues.map(issue => [issue.type, issue.ruleId, issue.message])).toEqual([
+        ['error', 'made/orphaned-class', 'made-card-body must be inside made-card'],
+        ['error', 'made/orphaned-class', 'made-list-item must be inside made-list']
+      ]);
+    });
+
+    it('should report missing required children', async () => {
+      const issues = await structure('<div class="made-card"><div class="made-card-header">Title</div></div><ul class="made-list"></ul>');
+
+      expect(issues.map(issue => issue.message)).toEqual([
+        'made-card is missing made-card-body',
+        'made-list is missing made-list-item'
+      ]);
+    });
+
+    it('should report sub-elements nested in the wrong component', async () => {
+      const issues = await structure('<div class="made-row"><div class="made-card"><div class="made-card-body"><div class="made-col">A</div></div></div></div>');
+
+      expect(issues).toEqual([expect.objectContaining({
+        ruleId: 'made/invalid-nesting',
+        message: 'made-col must sit directly inside made-row, not inside made-card-body',
+        line: 1
+      })]);
+    });
+
+    it('should not learn placements from a single example', async () => {
+      await linter.initialize(tokens, classes, [
+        component('Tabs', ['<div class="made-tabs"><div class="made-tabs-nav"><button class="made-tabs-tab">One</button></div></div>'])
+      ]);
+      const issues = await linter.lint('<main><div class="made-tabs-nav"><button type="button" class="made-tabs-tab">One</button></div></main>');
+
+      expect(issues.filter(issue => ['made/orphaned-class', 'made/invalid-nesting'].includes(issue.ruleId ?? ''))).toEqual([]);
+    });
+
+    it('should report children out of the example order', async () => {
+      const issues = await structure('<div class="made-card"><div class="made-card-footer">Actions</div><div class="made-card-body">Text</div></div>');
+
+      expect(issues.map(issue => [issue.type, issue.message])).toEqual([
+        ['warning', 'made-card-body should come before made-card-footer in made-card']
+      ]);
+      expect(await structure('<div class="made-card"><div class="made-card-header">Title</div><div class="made-card-body">Text</div><div class="made-card-footer">Actions</div></div>')).toEqual([]);
+    });
+  });
+
+  describe('variants', () => {
+    const cssClass = (name: string, declarations: Record<string, string> = {}): MADEClass => ({ name, selectors: [`.${name}`], declarations });
+    // Classes in made.css order, listed by name as the index stores them
+    const madeCss = (classes: MADEClass[]) => classes
+      .map((cls, order) => ({ ...cls, order }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const button: MADEComponent = {
+      name: 'Button',
+      description: '',
+      tags: [],
+      variants: { variant: ['primary', 'secondary', 'ghost'], size: ['sm', 'md', 'lg'] },
+      props: {},
+      htmlScaffold: '<button class="made-btn">Button</button>',
+      cssClasses: ['made-btn', 'made-btn-primary', 'made-btn-secondary', 'made-btn-sm', 'made-btn-lg'],
+      cssVarsUsed: [],
+      examples: []
+    };
+    const html = '<main><button type="button" class="made-btn made-btn-primary made-btn-secondary made-btn-sm made-btn-lg">Save</button></main>';
+    const conflicts = (issues: LintIssue[]) => issues.filter(issue => issue.ruleId === 'made/conflicting-variants');
+
+    it('should report two values of one component variant and keep the one that renders', async () => {
+      await linter.initialize(tokens, madeCss(button.cssClasses.map(name => cssClass(name))), [button]);
+      const issues = conflicts(await linter.lint(html));
+
+      expect(issues.map(issue => [issue.type, issue.message, issue.fixSuggestion])).toEqual([
+        ['error', 'made-btn-primary conflicts with made-btn-secondary: both set the Button variant', 'Remove made-btn-primary and keep made-btn-secondary; it wins in made.css, so it is the one that renders'],
+        ['error', 'made-btn-sm conflicts with made-btn-lg: both set the Button size', 'Remove made-btn-sm and keep made-btn-lg; it wins in made.css, so it is the one that renders']
+      ]);
+      expect(linter.applyFixes(html, issues).html).toContain('class="made-btn made-btn-secondary made-btn-lg"');
+    });
+
+    it('should fall back to the class listed last without a class index', async () => {
+      await linter.initialize(tokens, [], [button]);
+      const issues = conflicts(await linter.lint(html.replace('made-btn-primary made-btn-secondary', 'made-btn-secondary made-btn-primary')));
+
+      expect(issues.map(issue => issue.fixSuggestion)).toEqual([
+        'Remove made-btn-secondary and keep made-btn-primary; it was added last',
+        'Remove made-btn-sm and keep made-btn-lg; it was added last'
+      ]);
+    });
+
+    it('should learn exclusive modifiers from made.css', async () => {
+      await linter.initialize(tokens, madeCss([
+        cssClass('made-alert', { padding: 'var(--made-spacing-md)' }),
+        cssClass('made-alert-info', { 'background-color': 'var(--made-color-info-100)' }),
+        cssClass('made-alert-danger', { 'background-color': 'var(--made-color-danger-100)' }),
+        cssClass('made-alert-dismissible', { 'padding-right': 'var(--made-spacing-xl)' })
+      ]));
+      const issues = conflicts(await linter.lint('<main><div class="made-alert made-alert-danger made-alert-dismissible made-alert-info">Hi</div></main>'));
+
+      expect(issues.map(issue => issue.message)).toEqual([
+        'made-alert-info conflicts with made-alert-danger: both set the background-color of made-alert'
+      ]);
+    });
+
+    it('should fix class names that contain pattern characters', async () => {
+      await linter.initialize(tokens, madeCss([
+        cssClass('made-gap', { display: 'flex' }),
+        cssClass('made-gap-[2px]', { gap: '2px' }),
+        cssClass('made-gap-(4px)', { gap: '4px' })
+      ]));
+      const markup = '<main><div class="made-gap made-gap-[2px] made-gap-(4px)">Hi</div></main>';
+      const issues = conflicts(await linter.lint(markup));
+
+      expect(issues.map(issue => issue.fix?.description)).toEqual(['Remove made-gap-[2px]']);
+      expect(linter.applyFixes(markup, issues).html).toContain('class="made-gap made-gap-(4px)"');
+    });
+
+    it('should only learn modifiers that declare the same properties as one axis', async () => {
+      await linter.initialize(tokens, madeCss([
+        cssClass('made-tag', { padding: 'var(--made-spacing-xs)' }),
+        cssClass('made-tag-sm', { padding: 'var(--made-spacing-2xs)', 'font-size': 'var(--made-font-size-sm)' }),
+        cssClass('made-tag-lg', { padding: 'var(--made-spacing-sm)', 'font-size': 'var(--made-font-size-lg)' }),
+        cssClass('made-tag-icon', { padding: '0' })
+      ]));
+
+      expect(conflicts(await linter.lint('<main><span class="made-tag made-tag-lg made-tag-icon">Hi</span></main>'))).toEqual([]);
+      expect(conflicts(await linter.lint('<main><span class="made-tag made-tag-lg made-tag-sm">Hi</span></main>')).map(issue => [issue.message, issue.fixSuggestion])).toEqual([
+        ['made-tag-sm conflicts with made-tag-lg: both set the font-size, padding of made-tag', 'Remove made-tag-sm and keep made-tag-lg; it wins in made.css, so it is the one that renders']
+      ]);
+    });
+  });
+
+  describe('aria', () => {
+    const aria = async (html: string) => (await linter.lint(`<main>${html}</main>`))
+      .filter(issue => /^a11y\/(aria-|duplicate-id|nested-interactive)/.test(issue.ruleId ?? ''))
+      .map(issue => [issue.ruleId, issue.message]);
+
+    it('should validate role values', async () => {
+      expect(await aria('<div role="buton">A</div><div role="widget">B</div><div role="presentation none">C</div>')).toEqual([
+        ['a11y/aria-role', "Invalid ARIA role 'buton'"],
+        ['a11y/aria-role', "'widget' is an abstract ARIA role"]
+      ]);
+    });
+
+    it('should check required owned elements and context roles', async () => {
+      expect(await aria([
+        '<div role="tablist"><button role="tab" aria-selected="true">One</button></div>',
+        '<div role="list"><div><span role="listitem">Nested in a generic wrapper</span></div></div>',
+        '<div role="listbox" aria-label="Colors"><div role="group"><div role="option">Red</div></div></div>',
+        '<div role="menu" aria-label="Actions"><a href="/a">A</a></div>',
+        '<select aria-label="Size"><optgroup label="Common"><option>M</option></optgroup></select>',
+        '<button role="tab">Stray tab</button>'
+      ].join(''))).toEqual([
+        ['a11y/aria-required-children', 'Role menu must own an element with role menuitem or menuitemcheckbox or menuitemradio'],
+        ['a11y/aria-required-parent', 'Role tab must be inside an element with role tablist']
+      ]);
+    });
+
+    it('should check required and prohibited attributes per role', async () => {
+      expect(await aria([
+        '<div role="checkbox" tabindex="0">Subscribe</div>',
+        '<input type="checkbox" role="switch" aria-label="Dark mode">',
+        '<div role="heading">Title</div>',
+        '<span aria-label="Status">OK</span>',
+        '<nav aria-label="Main"><a href="/">Home</a></nav>'
+      ].join(''))).toEqual([
+        ['a11y/aria-required-attr', 'Role checkbox requires aria-checked'],
+        ['a11y/aria-required-attr', 'Role heading requires aria-level'],
+        ['a11y/aria-prohibited-attr', 'aria-label is not allowed on role generic (<span>)']
+      ]);
+    });
+
+    it('should check id references, duplicate ids and nested interactive elements', async () => {
+      const issues = await linter.lint([
+        '<main>',
+        '  <h1 id="title">Title</h1>',
+        '  <section aria-labelledby="title" aria-describedby="intro missing">',
+        '    <p id="intro">Intro</p><p id="intro">Again</p>',
+        '    <a href="/more"><button type="button">More</button></a>',
+        '  </section>',
+        '</main>'
+      ].join('\n'));
+
+      expect(issues.filter(issue => issue.type === 'error').map(issue => [issue.ruleId, issue.message, issue.line, issue.column])).toEqual([
+        ['a11y/duplicate-id', "Duplicate id 'intro'", 4, 31],
+        ['a11y/aria-reference', "aria-describedby references missing id 'missing'", 3, 36],
+        ['a11y/nested-interactive', 'Interactive <button> is nested inside interactive <a>', 5, 21]
+      ]);
+    });
+  });
+
+  describe('contrast', () => {
+    const palette: MADEToken[] = [
+      ...tokens,
+      { name: '--made-color-primary-700', value: '#B34200', category: 'color' },
+      { name: '--made-color-neutral-900', value: '#1A1A1A', category: 'color' },
+      { name: '--made-color-white', value: '#FFFFFF', category: 'color' }
+    ];
+    const banner: MADEClass = {
+      name: 'made-banner',
+      selectors: ['.made-banner'],
+      declarations: { 'background-color': 'var(--made-banner-bg)', '--made-banner-bg': 'var(--made-color-primary-500)', color: 'var(--made-color-white)' }
+    };
+    const contrast = async (html: string) => {
+      await linter.initialize(palette, [banner]);
+      return (await linter.lint(`<main>${html}</main>`)).filter(issue => issue.ruleId === 'a11y/color-contrast');
+    };
+
+    it('should report text below 4.5:1 and suggest the nearest passing token', async () => {
+      const issues = await contrast('<p style="color: var(--made-color-primary-500)">Sale</p><p style="color: #1a1a1a">Fine</p>');
+
+      expect(issues).toEqual([expect.objectContaining({
+        type: 'error',
+        message: 'Text contrast 3.04:1 is below 4.5:1 (#FF5F00 on #FFFFFF)',
+        fixSuggestion: 'Use var(--made-color-primary-700) (#B34200, 5.68:1) for the text color',
+        line: 1
+      })]);
+    });
+
+    it('should resolve colors from MADE classes, custom properties and translucent backgrounds', async () => {
+      const issues = await contrast([
+        '<div class="made-banner"><p>Small</p><h1>Large</h1></div>',
+        '<div style="background-color: rgba(0, 0, 0, 0.5)"><span style="color: #777">Dim</span></div>'
+      ].join(''));
+
+      expect(issues.map(issue => [issue.message, issue.fixSuggestion])).toEqual([
+        ['Text contrast 3.04:1 is below 4.5:1 (#FFFFFF on #FF5F00); both colors come from MADE classes', 'Use var(--made-color-neutral-900) (#1A1A1A, 5.7:1) for the text color'],
+        ['Text contrast 1.12:1 is below 4.5:1 (#777777 on #808080)', 'No MADE color token reaches 4.5:1 on #808080; use a darker or lighter background token']
+      ]);
+    });
+
+    it('should report pairs that only MADE classes produce as warnings', async () => {
+      const issues = await contrast([
+        '<div class="made-banner"><p>Classes</p></div>',
+        '<div class="made-banner" style="--made-banner-bg: #FF5F00"><p>Custom property</p></div>',
+        '<div class="made-banner"><p style="color: #ffffff">Inline</p></div>'
+      ].join(''));
+
+      expect(issues.map(issue => issue.type)).toEqual(['warning', 'error', 'error']);
+    });
+
+    it('should let the class whose rule comes last in made.css win', async () => {
+      const text = (name: string, color: string, order: number): MADEClass => ({ name, selectors: [`.${name}`], declarations: { color }, order });
+      const html = '<main><p class="made-text-light made-text-dark">Text</p></main>';
+      const check = async (classes: MADEClass[]) => {
+        await linter.initialize(palette, classes);
+        return (await linter.lint(html)).filter(issue => issue.ruleId === 'a11y/color-contrast').map(issue => issue.message);
+      };
+
+      expect(await check([text('made-text-dark', '#1A1A1A', 1), text('made-text-light', '#FFFFFF', 0)])).toEqual([]);
+      expect(await check([text('made-text-dark', '#1A1A1A', 0), text('made-text-light', '#FFFFFF', 1)])).toEqual([
+        'Text contrast 1:1 is below 4.5:1 (#FFFFFF on #FFFFFF); both colors come from MADE classes'
+      ]);
+    });
+
+    it('should use the 3:1 threshold for large text and skip text over images', async () => {
+      expect(await contrast([
+        '<p style="font-size: 1.5rem; color: #ff5f00">Large</p>',
+        '<p style="font-size: 19px; font-weight: bold; color: #ff5f00">Bold</p>',
+        '<div style="background: url(hero.png) #fff"><p style="color: #ff5f00">Hero</p></div>'
+      ].join(''))).toEqual([]);
+    });
+  });
+
+  describe('positions', () => {
+    it('should report the source range of the offending start tag', async () => {
+      const issues = await linter.lint('<main>\n  <p>Intro</p>\n  <img\n    src="a.png">\n</main>');
+      const alt = issues.find(issue => issue.message === 'Image element must have alt attribute for accessibility');
+
+      expect(alt).toMatchObject({ line: 3, column: 3, endLine: 4, endColumn: 17 });
+    });
+
+    it('should point into style attributes and <style> blocks', async () => {
+      const issues = await linter.lint([
+        '<main>',
+        '  <div class="made-nope" style="padding: 16px; color: var(--made-missing)">Hi</div>',
+        '  <style>',
+        '    .promo { color: #ff5f00; }',
+        '  </style>',
+        '</main>'
+      ].join('\n'));
+      const find = (prefix: string) => issues.find(issue => issue.message.startsWith(prefix));
+
+      expect(find('Unknown MADE class')).toMatchObject({ line: 2, column: 8, endLine: 2, endColumn: 25 });
+      expect(find('Hard-coded spacing')).toMatchObject({ line: 2, column: 33, endLine: 2, endColumn: 46 });
+      expect(find('Unknown MADE token')).toMatchObject({ line: 2, column: 55, endLine: 2, endColumn: 74 });
+      expect(find('Hard-coded color')).toMatchObject({ line: 4, column: 14, endLine: 4, endColumn: 28 });
+    });
+  });
+
+  describe('rules', () => {
+    const html = [
+      '<main>',
+      '  <h1>Title</h1>',
+      '  <h3>Skipped</h3>',
+      '  <img src="a.png">',
+      '</main>'
+    ].join('\n');
+    const ruleIds = (issues: { ruleId?: string }[]) => issues.map(issue => issue.ruleId);
+
+    it('should tag issues with the rule that reported them', async () => {
+      expect(ruleIds(await linter.lint(html))).toEqual(['a11y/img-alt', 'a11y/heading-order']);
+    });
+
+    it('should turn rules off and change their severity', async () => {
+      const issues = await linter.lint(html, { 'a11y/img-alt': 'off', 'a11y/heading-order': 'error' });
+
+      expect(issues).toEqual([expect.objectContaining({ ruleId: 'a11y/heading-order', type: 'error' })]);
+    });
+
+    it('should honor made-lint-disable-next-line comments', async () => {
+      const disabled = (comment: string) => linter.lint(html.replace('  <img', `  <!-- ${comment} -->\n  <img`));
+
+      expect(ruleIds(await disabled('made-lint-disable-next-line a11y/img-alt'))).toEqual(['a11y/heading-order']);
+      expect(ruleIds(await disabled('made-lint-disable-next-line a11y/img-src, a11y/heading-order'))).toContain('a11y/img-alt');
+      expect(ruleIds(await disabled('made-lint-disable-next-line'))).toEqual(['a11y/heading-order']);
+    });
+  });
+
+  describe('fixes', () => {
+    const fix = async (html: string) => {
+      const issues = await linter.lint(html);
+      return linter.applyFixes(html, issues);
+    };
+
+    it('should add missing attributes', async () => {
+      const { html } = await fix([
+        '<main>',
+        '  <button class="made-btn">Close</button>',
+        '  <form><button class="made-btn">Send</button></form>',
+        '  <img src="a.png">',
+        '  <div class="made-modal dialog">Hi</div>',
+        '</main>'
+      ].join('\n'));
+
+      expect(html).toBe([
+        '<main>',
+        '  <button type="button" class="made-btn">Close</button>',
+        '  <form><button type="submit" class="made-btn">Send</button></form>',
+        '  <img alt="" src="a.png">',
+        '  <div role="dialog" aria-modal="true" class="made-modal dialog">Hi</div>',
+        '</main>'
+      ].join('\n'));
+    });
+
+    it('should swap raw values for tokens in style attributes and <style> blocks', async () => {
+      const { html, edits } = await fix('<main style="padding: 16px 8px; color: #FF5F00"><style>.promo { margin: 16px; }</style></main>');
+
+      expect(html).toBe('<main style="padding: var(--made-spacing-md) 8px; color: var(--made-color-primary-500)"><style>.promo { margin: var(--made-spacing-md); }</style></main>');
+      expect(edits[0]).toEqual({
+        range: { startOffset: 22, endOffset: 26, line: 1, column: 23, endLine: 1, endColumn: 27 },
+        replacement: 'var(--made-spacing-md)',
+        description: 'Replace 16px with var(--made-spacing-md)'
+      });
+    });
+
+    it('should rename Bootstrap classes', async () => {
+      const { html } = await fix('<main><button type="button" class="btn btn-primary made-btn">Save</button><div class="card">Hi</div></main>');
+
+      expect(html).toBe('<main><button type="button" class="made-btn-primary made-btn">Save</button><div class="made-card">Hi</div></main>');
+    });
+
+    it('should report a missing alt once and apply an edit reported twice once', async () => {
+      const html = '<main><img src="a.png"></main>';
+      const issues = await linter.lint(html);
+      const fixable = issues.filter(issue => issue.fix);
+
+      expect(fixable.map(issue => issue.ruleId)).toEqual(['a11y/img-alt']);
+      expect(linter.applyFixes(html, [...issues, ...fixable])).toMatchObject({ html: '<main><img alt="" src="a.png"></main>', edits: [expect.any(Object)] });
+    });
+  });
+});
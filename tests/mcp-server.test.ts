@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import * as fs from 'fs-extra';
 import { MADEMCPServer } from '../src/mcp-server.js';
-import { MADEToken, MADEComponent } from '../src/types.js';
+import { PromptLibrary } from '../src/prompts/prompt-library.js';
+import { MADEToken, MADEComponent, LintRuleSummary } from '../src/types.js';
 
 // Mock the dependencies
 vi.mock('../src/indexing/index-manager.js');
@@ -29,7 +30,10 @@ describe('MADEMCPServer', () => {
 
   const mockComponents: MADEComponent[] = [
     {
+      id: 'components-actions-button',
       name: 'Button',
+      category: 'Components/Actions',
+      path: ['Components', 'Actions', 'Button'],
       description: 'Interactive button component',
       tags: ['interactive', 'form'],
       variants: {
@@ -59,6 +63,7 @@ describe('MADEMCPServer', () => {
       loadIndexes: vi.fn(),
       getTokens: vi.fn(() => mockTokens),
       getComponents: vi.fn(() => mockComponents),
+      getClasses: vi.fn(() => []),
       getIndexMeta: vi.fn(() => ({
         version: '1.0.0',
         upstreamCommit: 'abc123',
@@ -144,6 +149,77 @@ describe('MADEMCPServer', () => {
       expect(result.tokens).toHaveLength(0);
       expect(result.meta?.filteredCount).toBe(0);
     });
+
+    it('should throw error for unknown themes', async () => {
+      await expect(server.listTokens(undefined, 'dark'))
+        .rejects.toThrow("Theme 'dark' not found");
+    });
+  });
+
+  describe('themes', () => {
+    beforeEach(async () => {
+      (server as any).indexManager.getTokens = vi.fn(() => [
+        ...mockTokens,
+        { name: '--made-color-primary-500', value: '#CF4500', category: 'color', theme: 'dark' },
+        { name: '--made-spacing-md', value: '0.75rem', category: 'spacing', theme: 'b2b' }
+      ]);
+      await server.initialize();
+    });
+
+    it('should list the tokens of a theme', async () => {
+      const result = await server.listTokens('color', 'dark');
+
+      expect(result.tokens[0].value).toBe('#CF4500');
+      expect(result.meta?.theme).toBe('dark');
+      expect(result.meta?.themes).toEqual(['b2b', 'dark']);
+    });
+
+    it('should compare themes within a category', async () => {
+      const result = await server.compareThemes('dark', undefined, 'color');
+
+      expect(result.base).toBe('default');
+      expect(result.changed).toEqual([
+        expect.objectContaining({ name: '--made-color-primary-500', baseResolvedValue: '#FF5F00', targetResolvedValue: '#CF4500' })
+      ]);
+    });
+  });
+
+  describe('resolveToken', () => {
+    beforeEach(async () => {
+      await server.initialize();
+    });
+
+    it('should resolve tokens with or without the prefix', async () => {
+      const result = await server.resolveToken('color-primary-500');
+
+      expect(result.name).toBe('--made-color-primary-500');
+      expect(result.resolvedValue).toBe('#FF5F00');
+      expect(result.isAlias).toBe(false);
+      expect(result.chain).toEqual([{ name: '--made-color-primary-500', value: '#FF5F00' }]);
+    });
+
+    it('should throw error for non-existent token', async () => {
+      await expect(server.resolveToken('--made-nope'))
+        .rejects.toThrow("Token '--made-nope' not found");
+    });
+  });
+
+  describe('findNearestToken', () => {
+    beforeEach(async () => {
+      await server.initialize();
+    });
+
+    it('should return the closest token with an explanation', async () => {
+      const result = await server.findNearestToken('#FF6000');
+
+      expect(result.matches[0].name).toBe('--made-color-primary-500');
+      expect(result.matches[0].explanation).toContain('ΔE');
+    });
+
+    it('should throw error for unparseable values', async () => {
+      await expect(server.findNearestToken('auto'))
+        .rejects.toThrow("Cannot parse 'auto'");
+    });
   });
 
   describe('listComponents', () => {
@@ -167,6 +243,37 @@ describe('MADEMCPServer', () => {
     });
   });
 
+  describe('categories', () => {
+    beforeEach(async () => {
+      await server.initialize();
+    });
+
+    it('should filter components by category path or name', async () => {
+      expect((await server.listComponents('Components/Actions')).components).toHaveLength(1);
+      expect((await server.listComponents('components')).components).toHaveLength(1);
+      expect((await server.listComponents('Actions')).components[0].category).toBe('Components/Actions');
+      expect((await server.listComponents('Forms')).components).toHaveLength(0);
+      expect((await server.listComponents('Actions/Components')).components).toHaveLength(0);
+    });
+
+    it('should return the category tree', async () => {
+      const result = await server.listCategories();
+
+      expect(result.categories).toEqual([
+        {
+          name: 'Components',
+          path: 'Components',
+          componentCount: 1,
+          components: [],
+          children: [
+            { name: 'Actions', path: 'Components/Actions', componentCount: 1, components: ['Button'], children: [] }
+          ]
+        }
+      ]);
+      expect(result.uncategorized).toEqual([]);
+    });
+  });
+
   describe('getComponent', () => {
     beforeEach(async () => {
       await server.initialize();
@@ -270,6 +377,225 @@ describe('MADEMCPServer', () => {
       expect(result.issues).toHaveLength(1);
       expect(result.suggestions).toBeDefined();
     });
+
+    it('should pass per-call rules over the configured ones', async () => {
+      process.env.MADE_LINT_CONFIG = './tests/cache/maderc.json';
+      await fs.outputJson(process.env.MADE_LINT_CONFIG, { rules: { 'made/hard-coded-value': 'off', 'made/deprecated-token': 'error' } });
+      try {
+        await server.initialize();
+      } finally {
+        delete process.env.MADE_LINT_CONFIG;
+      }
+
+      await server.lintMarkup('<button>Test</button>', false, { 'made/hard-coded-value': 'info' });
+
+      expect((server as any).markupLinter.lint).toHaveBeenLastCalledWith('<button>Test</button>', {
+        'made/hard-coded-value': 'info',
+        'made/deprecated-token': 'error'
+      });
+    });
+
+    it('should reject unknown rules and severities', async () => {
+      await expect(server.lintMarkup('<p></p>', false, { 'made/nope': 'off' })).rejects.toThrow('Unknown lint rule: made/nope');
+      await expect(server.lintMarkup('<p></p>', false, { 'made/deprecated-token': 'fatal' as any })).rejects.toThrow("Invalid severity 'fatal'");
+    });
+
+    it('should return the fixed markup and edits only when asked', async () => {
+      const edit = { range: { startOffset: 7, endOffset: 7, line: 1, column: 8, endLine: 1, endColumn: 8 }, replacement: ' type="button"', description: 'Add type="button"' };
+      (server as any).markupLinter.lint = vi.fn(() => [{ type: 'warning', message: 'Button should declare its type', fix: edit }]);
+      (server as any).markupLinter.applyFixes = vi.fn(() => ({ html: '<button type="button">Test</button>', edits: [edit] }));
+
+      const plain = await server.lintMarkup('<button>Test</button>');
+      const fixed = await server.lintMarkup('<button>Test</button>', true);
+
+      expect(plain.fixedHtml).toBeUndefined();
+      expect(fixed.fixedHtml).toBe('<button type="button">Test</button>');
+      expect(fixed.edits).toEqual([edit]);
+    });
+  });
+
+  describe('lintCSS', () => {
+    beforeEach(async () => {
+      await server.initialize();
+    });
+
+    it('should be invalid when the stylesheet uses unknown tokens', async () => {
+      const result = await server.lintCSS('.promo { color: var(--made-color-nope); }');
+
+      expect(result.valid).toBe(false);
+      expect(result.issues[0].message).toBe('Unknown MADE token: --made-color-nope');
+    });
+
+    it('should apply per-call rules like lintMarkup', async () => {
+      const result = await server.lintCSS('.promo { color: var(--made-color-nope); }', 'css', { 'made/unknown-token': 'warning' });
+
+      expect(result.valid).toBe(true);
+      expect(result.issues[0]).toMatchObject({ ruleId: 'made/unknown-token', type: 'warning' });
+      await expect(server.lintCSS('.promo {}', 'css', { 'made/nope': 'off' })).rejects.toThrow('Unknown lint rule: made/nope');
+    });
+  });
+
+  describe('resources', () => {
+    beforeEach(async () => {
+      await server.initialize();
+    });
+
+    it('should list meta, token category and component resources', async () => {
+      const resources = await server.listResources();
+      const uris = resources.map(resource => resource.uri);
+
+      expect(uris).toContain('made://meta');
+      expect(uris).toContain('made://tokens/color');
+      expect(uris).toContain('made://tokens/spacing');
+      expect(uris).toContain('made://components/Button');
+    });
+
+    it('should expose resource templates', async () => {
+      const templates = await server.listResourceTemplates();
+      const uriTemplates = templates.map(template => template.uriTemplate);
+
+      expect(uriTemplates).toContain('made://tokens/{category}');
+      expect(uriTemplates).toContain('made://components/{name}');
+      expect(uriTemplates).toContain('made://components/{name}/examples/{n}');
+    });
+
+    it('should read tokens by category', async () => {
+      const result = await server.readResource('made://tokens/color');
+      const data = JSON.parse(result.contents[0].text);
+
+      expect(result.contents[0].mimeType).toBe('application/json');
+      expect(data.tokens).toHaveLength(1);
+      expect(data.tokens[0].name).toBe('--made-color-primary-500');
+    });
+
+    it('should read components case insensitively', async () => {
+      const result = await server.readResource('made://components/button');
+      const data = JSON.parse(result.contents[0].text);
+
+      expect(data.name).toBe('Button');
+    });
+
+    it('should read component examples as HTML', async () => {
+      const result = await server.readResource('made://components/Button/examples/0');
+
+      expect(result.contents[0].mimeType).toBe('text/html');
+      expect(result.contents[0].text).toContain('made-btn-primary');
+    });
+
+    it('should reject unknown resources', async () => {
+      await expect(server.readResource('made://components/Button/examples/5'))
+        .rejects.toThrow('Example 5 not found');
+      await expect(server.readResource('made://unknown'))
+        .rejects.toThrow('Resource not found');
+      await expect(server.readResource('https://example.com'))
+        .rejects.toThrow('Unsupported resource URI');
+    });
+
+    it('should notify listeners when indexes are reloaded', async () => {
+      const listener = vi.fn();
+      const removeListener = server.onIndexesUpdated(listener);
+
+      await server.reloadIndexes();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      removeListener();
+      await server.reloadIndexes();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('prompts', () => {
+    beforeEach(async () => {
+      await server.initialize();
+    });
+
+    it('should list design-system workflow prompts', async () => {
+      const prompts = await server.listPrompts();
+      const names = prompts.map(prompt => prompt.name);
+
+      expect(names).toEqual(['build_form', 'audit_markup', 'migrate_bootstrap']);
+      expect(prompts[0].arguments.find(arg => arg.name === 'fields')?.required).toBe(true);
+    });
+
+    it('should embed component scaffolds and tokens in build_form', async () => {
+      const result = await server.getPrompt('build_form', { fields: 'email, password' });
+      const text = result.messages[0].content.text;
+
+      expect(result.messages[0].role).toBe('user');
+      expect(text).toContain('Fields: email, password');
+      expect(text).toContain('made-btn made-btn-primary');
+      expect(text).toContain('--made-spacing-md');
+    });
+
+    it('should embed lint findings in audit_markup', async () => {
+      (server as any).markupLinter.lint = vi.fn(() => [
+        { type: 'error', message: 'Button needs accessible text content or aria-label' }
+      ]);
+
+      const result = await server.getPrompt('audit_markup', { html: '<button class="made-btn"></button>' });
+      const text = result.messages[0].content.text;
+
+      expect(text).toContain('[error] Button needs accessible text content or aria-label');
+      expect(text).toContain('### Button');
+    });
+
+    it('should leave rules the lint config turns off out of the prompts', async () => {
+      const lintRules: LintRuleSummary[] = [
+        { id: 'a11y/heading-order', category: 'accessibility', description: 'Heading levels must not skip' },
+        { id: 'a11y/img-alt', category: 'accessibility', description: 'Images need an alt attribute' }
+      ];
+      const library = new PromptLibrary();
+      await library.initialize(mockComponents, mockTokens, lintRules, { 'a11y/heading-order': 'off', 'a11y/img-alt': 'warning' });
+      const text = library.getPrompt('build_form', { fields: 'email' }).messages[0].content.text;
+
+      expect(text).not.toContain('(a11y/heading-order)');
+      expect(text).toContain('(a11y/img-alt)');
+
+      process.env.MADE_LINT_CONFIG = './tests/cache/maderc.json';
+      await fs.outputJson(process.env.MADE_LINT_CONFIG, { rules: { 'made/hard-coded-value': 'off' } });
+      const initialize = vi.spyOn((server as any).promptLibrary, 'initialize');
+      try {
+        await server.initialize();
+      } finally {
+        delete process.env.MADE_LINT_CONFIG;
+      }
+
+      expect(initialize).toHaveBeenLastCalledWith(mockComponents, expect.any(Array), expect.any(Array), { 'made/hard-coded-value': 'off' });
+    });
+
+    it('should apply the configured lint rules in audit_markup', async () => {
+      process.env.MADE_LINT_CONFIG = './tests/cache/maderc.json';
+      await fs.outputJson(process.env.MADE_LINT_CONFIG, { rules: { 'made/hard-coded-value': 'off' } });
+      try {
+        await server.initialize();
+      } finally {
+        delete process.env.MADE_LINT_CONFIG;
+      }
+      (server as any).markupLinter.lint = vi.fn(() => []);
+
+      await server.getPrompt('audit_markup', { html: '<button>Test</button>' });
+
+      expect((server as any).markupLinter.lint).toHaveBeenLastCalledWith('<button>Test</button>', {
+        'made/hard-coded-value': 'off'
+      });
+    });
+
+    it('should map Bootstrap classes in migrate_bootstrap', async () => {
+      const result = await server.getPrompt('migrate_bootstrap', {
+        html: '<button class="btn btn-primary">Save</button>'
+      });
+      const text = result.messages[0].content.text;
+
+      expect(text).toContain('.btn → .made-btn');
+      expect(text).toContain('.btn-primary → .made-btn-primary');
+    });
+
+    it('should reject missing arguments and unknown prompts', async () => {
+      await expect(server.getPrompt('build_form', {}))
+        .rejects.toThrow('Missing required argument(s) for prompt build_form: fields');
+      await expect(server.getPrompt('unknown'))
+        .rejects.toThrow('Unknown prompt: unknown');
+    });
   });
 
   describe('healthCheck', () => {
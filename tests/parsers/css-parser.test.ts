@@ -50,6 +50,47 @@ describe('CSSParser', () => {
       expect(primaryColor?.description).toContain('color token');
       expect(primaryColor?.description).toContain(primaryColor?.value);
     });
+
+    it('should record the declaration line of each token', async () => {
+      await parser.parseMadeCSSVariables(testCSSPath);
+      const primaryColor = parser.getTokens().find(token => token.name === '--made-color-primary-500');
+
+      expect(primaryColor?.source).toEqual({ path: testCSSPath, startLine: 4, endLine: 4 });
+    });
+
+    it('should index theme blocks as themed tokens', async () => {
+      await parser.parseMadeCSSVariables(path.join('./tests/fixtures', 'themes.css'));
+      const values = parser.getTokens()
+        .filter(token => token.name === '--made-color-surface' || token.name === '--made-color-blue-500')
+        .map(token => [token.theme ?? 'default', token.name, token.value]);
+
+      expect(values).toEqual(expect.arrayContaining([
+        ['default', '--made-color-blue-500', '#0055FF'],
+        ['b2b', '--made-color-blue-500', '#003399'],
+        ['partner', '--made-color-surface', '#F5F5F5'],
+        ['dark', '--made-color-surface', '#141413']
+      ]));
+      expect(parser.getTokens().some(token => token.name === '--made-btn-padding')).toBe(false);
+    });
+
+    it('should mark tokens with @deprecated comments', async () => {
+      const cssPath = path.join('./tests/cache', 'deprecated.css');
+      await fs.outputFile(cssPath, ':root {\n  /* @deprecated Use --made-color-action */\n  --made-color-cta: #FF5F00;\n  --made-color-action: #FF5F00;\n}');
+
+      await parser.parseMadeCSSVariables(cssPath);
+      const deprecated = parser.getTokens().filter(token => token.deprecated);
+
+      expect(deprecated.map(token => [token.name, token.deprecated])).toEqual([['--made-color-cta', 'Use --made-color-action']]);
+    });
+
+    it('should prefix themes of theme-specific files', async () => {
+      await parser.parseMadeCSSVariables(path.join('./tests/fixtures', 'themes.css'), 'partner');
+      const themes = parser.getTokens()
+        .filter(token => token.name === '--made-color-surface')
+        .map(token => token.theme);
+
+      expect(themes).toEqual(expect.arrayContaining(['partner', 'partner/dark']));
+    });
   });
 
   describe('parseMadeCSS', () => {
@@ -72,6 +113,36 @@ describe('CSSParser', () => {
       expect(parser.isMadeClass('p-3')).toBe(true);
       expect(parser.isMadeClass('custom-class')).toBe(false);
     });
+
+    it('should take class declarations from top-level rules only', async () => {
+      const cssPath = path.join('./tests/cache', 'media-classes.css');
+      await fs.outputFile(cssPath, [
+        '.made-banner { color: #141413; background-color: #FFFFFF; }',
+        '@media (prefers-color-scheme: dark) { .made-banner { color: #FFFFFF; background-color: #141413; } }',
+        '@media print { .made-banner { color: #000000; } }'
+      ].join('\n'));
+
+      await parser.parseMadeCSS(cssPath);
+      const banner = parser.getClasses().find(cls => cls.name === 'made-banner');
+
+      expect(banner?.declarations).toEqual({ color: '#141413', 'background-color': '#FFFFFF' });
+      expect(banner?.selectors).toEqual(['.made-banner']);
+    });
+
+    it('should record the source order of each class\'s last rule', async () => {
+      const cssPath = path.join('./tests/cache', 'ordered-classes.css');
+      await fs.outputFile(cssPath, [
+        '.made-btn-sm { padding: 4px; }',
+        '.made-btn-lg { padding: 16px; }',
+        '.made-card .made-btn-sm { margin: 0; }',
+        '.made-btn-sm { font-size: 12px; }'
+      ].join('\n'));
+
+      await parser.parseMadeCSS(cssPath);
+      const order = Object.fromEntries(parser.getClasses().map(cls => [cls.name, cls.order]));
+
+      expect(order).toEqual({ 'made-btn-lg': 1, 'made-btn-sm': 3, 'made-card': undefined });
+    });
   });
 
   describe('helper methods', () => {
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as path from 'path';
+import { CSSParser } from '../../src/parsers/css-parser.js';
+import { MADEToken } from '../../src/types.js';
+
+describe('DTCG tokens', () => {
+  let tokens: MADEToken[];
+  const tokensPath = path.join('./tests/fixtures', 'design.tokens.json');
+
+  const find = (name: string) => tokens.find(token => token.name === name);
+
+  beforeEach(async () => {
+    const parser = new CSSParser();
+    await parser.parseMadeTokensJSON(tokensPath);
+    tokens = parser.getTokens();
+  });
+
+  it('should flatten nested groups into CSS variable names', () => {
+    expect(tokens.map(token => token.name)).toEqual([
+      '--made-color-blue-500',
+      '--made-color-action',
+      '--made-space-md',
+      '--made-space-lg',
+      '--made-shadow-focus',
+      '--made-font-family-base',
+      '--made-font-heading',
+      '--made-motion-ease'
+    ]);
+  });
+
+  it('should read $value, inherited $type and $description', () => {
+    expect(find('--made-color-blue-500')).toMatchObject({
+      value: '#0055FF',
+      type: 'color',
+      category: 'color',
+      description: 'Brand blue'
+    });
+    expect(find('--made-space-md')).toMatchObject({ value: '16px', type: 'dimension', category: 'spacing' });
+    expect(find('--made-space-lg')?.value).toBe('24px');
+  });
+
+  it('should turn aliases into var() references', () => {
+    expect(find('--made-color-action')).toMatchObject({ value: 'var(--made-color-blue-500)', type: 'color' });
+  });
+
+  it('should convert composite values to CSS', () => {
+    expect(find('--made-shadow-focus')).toMatchObject({
+      value: '0px 0px 0px 3px var(--made-color-action)',
+      category: 'shadow'
+    });
+    expect(find('--made-font-family-base')?.value).toBe('"Mark Offc For MC", Arial, sans-serif');
+    expect(find('--made-font-heading')).toMatchObject({
+      value: '700 24px/1.25 var(--made-font-family-base)',
+      category: 'typography'
+    });
+    expect(find('--made-motion-ease')?.value).toBe('cubic-bezier(0.4, 0, 0.2, 1)');
+  });
+
+  it('should record the line range of each token', () => {
+    expect(find('--made-color-blue-500')?.source).toEqual({ path: tokensPath, startLine: 5, endLine: 8 });
+    expect(find('--made-space-md')?.source).toEqual({ path: tokensPath, startLine: 16, endLine: 16 });
+  });
+});
@@ -77,6 +77,187 @@ describe('StorybookParser', () => {
     });
   });
 
+  describe('CSF3 stories', () => {
+    beforeEach(async () => {
+      await parser.parseStories();
+    });
+
+    it('should render stories with the meta render function and inherited args', () => {
+      const alert = parser.getComponent('Alert');
+      const info = alert?.examples.find(ex => ex.title === 'Info');
+
+      expect(info?.props).toEqual({ variant: 'info', message: 'Heads up!' });
+      expect(info?.html).toContain('made-alert-info');
+      expect(info?.html).toContain('Heads up!');
+    });
+
+    it('should merge story args and use story names', () => {
+      const alert = parser.getComponent('Alert');
+      const success = alert?.examples.find(ex => ex.title === 'Success message');
+
+      expect(success?.html).toContain('made-alert-success');
+      expect(success?.html).toContain('Saved');
+    });
+
+    it('should evaluate conditionals and mapped array args', () => {
+      const alert = parser.getComponent('Alert');
+      const success = alert?.examples.find(ex => ex.title === 'Success message');
+      const info = alert?.examples.find(ex => ex.title === 'Info');
+
+      expect(success?.html).toContain('made-alert-dismissible');
+      expect(success?.html).toContain('made-alert-close');
+      expect(success?.html).toContain('>Undo</button>');
+      expect(success?.html).toContain('>View</button>');
+      expect(info?.html).not.toContain('made-alert-close');
+      expect(alert?.examples.every(ex => !ex.html.includes('${'))).toBe(true);
+      expect(alert?.htmlScaffold).not.toContain('${');
+    });
+
+    it('should resolve spread stories and spread args', () => {
+      const alert = parser.getComponent('Alert');
+      const error = alert?.examples.find(ex => ex.props?.variant === 'error');
+
+      expect(error?.title).toBe('Success message');
+      expect(error?.html).toContain('made-alert-error');
+      expect(error?.html).toContain('Saved');
+    });
+
+    it('should render CSF2 function stories with assigned args', () => {
+      const alert = parser.getComponent('Alert');
+      const inline = alert?.examples.find(ex => ex.title === 'Inline');
+
+      expect(inline?.html).toContain('made-alert-info');
+      expect(inline?.html).toContain('Inline alert');
+      expect(inline?.html).not.toContain('${');
+    });
+
+    it('should record the source lines of each story', () => {
+      const alert = parser.getComponent('Alert');
+      const info = alert?.examples.find(ex => ex.title === 'Info');
+      const inline = alert?.examples.find(ex => ex.title === 'Inline');
+
+      expect(info?.source).toEqual({ path: 'alert.stories.ts', startLine: 28, endLine: 28 });
+      // CSF2 stories include their `Story.args = ...` assignment
+      expect(inline?.source).toEqual({ path: 'alert.stories.ts', startLine: 50, endLine: 53 });
+    });
+  });
+
+  describe('MDX docs', () => {
+    beforeEach(async () => {
+      await parser.parseStories();
+    });
+
+    it('should use the overview paragraph as description', () => {
+      const card = parser.getComponent('Card');
+
+      expect(card?.description).toBe('Cards group related content and actions about a single subject.');
+      expect(card?.docs?.overview).toContain('header, body and footer');
+      expect(card?.docs?.usage).toBe('Use a card to present a summary that links to more detail.');
+    });
+
+    it('should parse accessibility guidance and do/don\'t lists', () => {
+      const card = parser.getComponent('Card');
+
+      expect(card?.docs?.accessibility).toEqual([
+        'Use a heading element for the card title so screen readers can navigate between cards.',
+        'Avoid making the whole card clickable when it contains other interactive elements.'
+      ]);
+      expect(card?.a11yNotes).toEqual(card?.docs?.accessibility);
+      expect(card?.docs?.dos).toEqual(['Keep card content concise']);
+      expect(card?.docs?.donts).toEqual(['Nest cards inside cards']);
+    });
+
+    it('should parse props tables', () => {
+      const card = parser.getComponent('Card');
+
+      expect(card?.docs?.propsTable).toEqual([
+        { name: 'variant', type: "'default' | 'outlined'", default: "'default'", description: 'Visual style of the card' },
+        { name: 'elevated', type: 'boolean', default: 'false', description: 'Adds a shadow' }
+      ]);
+      expect(card?.props.elevated).toMatchObject({ type: 'boolean', description: 'Adds a shadow' });
+    });
+
+    it('should keep other sections by heading', () => {
+      const card = parser.getComponent('Card');
+
+      expect(card?.docs?.sections?.Theming).toContain('--made-card-padding');
+      expect(card?.examples[0].html).toContain('made-card-header');
+    });
+  });
+
+  describe('merging story and docs files', () => {
+    beforeEach(async () => {
+      await parser.parseStories();
+    });
+
+    it('should merge stories and MDX docs of the same component', () => {
+      const buttons = parser.getComponents().filter(comp => comp.name === 'Button');
+
+      expect(buttons).toHaveLength(1);
+      expect(buttons[0].id).toBe('components-button');
+      expect(buttons[0].sources?.map(source => source.path)).toEqual(['sample-story.stories.ts', 'Button.mdx']);
+      expect(buttons[0].sources?.[0].startLine).toBe(1);
+    });
+
+    it('should union examples, notes and docs', () => {
+      const button = parser.getComponent('components-button');
+
+      expect(button?.examples.some(ex => ex.html.includes('aria-label="Close"'))).toBe(true);
+      expect(button?.examples.some(ex => ex.title === 'Primary')).toBe(true);
+      expect(button?.a11yNotes).toContain('Use a `<button>` element for actions and an `<a>` element for navigation.');
+      expect(button?.description).toBe('Buttons trigger actions such as submitting a form or opening a dialog.');
+      expect(button?.props.variant?.control).toBe('select');
+    });
+
+    it('should keep the category path from the title', () => {
+      const alert = parser.getComponent('Alert');
+
+      expect(alert?.id).toBe('components-feedback-alert');
+      expect(alert?.category).toBe('Components/Feedback');
+      expect(alert?.path).toEqual(['Components', 'Feedback', 'Alert']);
+      expect(parser.getComponent('Button')?.category).toBe('Components');
+    });
+
+    it('should not turn docs pages without stories into components', () => {
+      expect(parser.getComponent('Introduction')).toBeUndefined();
+      expect(parser.getComponents().filter(comp => comp.name === 'Card')).toHaveLength(1);
+      expect(parser.getComponent('Card')?.sources?.map(source => source.path)).toEqual(['card.stories.ts', 'card.mdx']);
+    });
+
+    it('should keep the story scaffold when docs add examples', () => {
+      const button = parser.getComponent('Button');
+
+      expect(button?.htmlScaffold).toContain('made-btn-primary');
+    });
+  });
+
+  describe('props extraction', () => {
+    beforeEach(async () => {
+      await parser.parseStories();
+    });
+
+    it('should extract props from argTypes', () => {
+      const props = parser.getComponent('Button')?.props;
+
+      expect(props?.variant).toMatchObject({
+        control: 'select',
+        options: ['primary', 'secondary', 'ghost'],
+        description: 'Button visual variant'
+      });
+      expect(props?.disabled).toMatchObject({ type: 'boolean', control: 'boolean' });
+    });
+
+    it('should read types, defaults and descriptions from the component props interface', () => {
+      const props = parser.getComponent('Button')?.props;
+
+      expect(props?.size?.type).toBe("'sm' | 'md' | 'lg'");
+      expect(props?.size?.default).toBe('md');
+      expect(props?.children).toMatchObject({ type: 'string', control: 'text', description: 'Button label', required: true });
+      expect(props?.onClick).toMatchObject({ type: '() => void', description: 'Click handler' });
+      expect(props?.onClick?.control).toBeUndefined();
+    });
+  });
+
   describe('component search', () => {
     beforeEach(async () => {
       await parser.parseStories();
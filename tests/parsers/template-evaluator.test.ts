@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
+import { StoryFileAST } from '../../src/parsers/story-ast.js';
+import { TemplateEvaluator } from '../../src/parsers/template-evaluator.js';
+
+function render(source: string, args: Record<string, unknown>): string | null {
+  const ast = new StoryFileAST(`const template = ${source};`, 'template.ts');
+  const statement = ast.sourceFile.statements[0] as ts.VariableStatement;
+  const template = statement.declarationList.declarations[0].initializer!;
+
+  return new TemplateEvaluator(ast).render(template, { args, ...args });
+}
+
+describe('TemplateEvaluator', () => {
+  it('should substitute args', () => {
+    expect(render('`<button class="made-btn made-btn-${args.variant}">${label}</button>`', { variant: 'primary', label: 'Save' }))
+      .toBe('<button class="made-btn made-btn-primary">Save</button>');
+  });
+
+  it('should evaluate ternaries and conditionals', () => {
+    const template = "`<button${disabled ? ' disabled' : ''}>${loading && 'Loading'}${icon || ''}</button>`";
+
+    expect(render(template, { disabled: true, loading: false })).toBe('<button disabled></button>');
+    expect(render(template, { disabled: false, loading: true, icon: '★' })).toBe('<button>Loading★</button>');
+  });
+
+  it('should evaluate comparisons', () => {
+    expect(render("`<div class=\"${size === 'lg' ? 'made-btn-lg' : 'made-btn-sm'}\"></div>`", { size: 'lg' }))
+      .toBe('<div class="made-btn-lg"></div>');
+  });
+
+  it('should map over array args with nested templates', () => {
+    const template = '`<ul>${items.map((item, i) => `<li data-index="${i}">${item.label}</li>`).join(\'\')}</ul>`';
+
+    expect(render(template, { items: [{ label: 'One' }, { label: 'Two' }] }))
+      .toBe('<ul><li data-index="0">One</li><li data-index="1">Two</li></ul>');
+  });
+
+  it('should concatenate mapped arrays without separators', () => {
+    expect(render('`${tags.map(tag => `<span>${tag.toUpperCase()}</span>`)}`', { tags: ['a', 'b'] }))
+      .toBe('<span>A</span><span>B</span>');
+  });
+
+  it('should render unsupported expressions as empty strings', () => {
+    expect(render('`<p>${window.location.href}${format(args.value)}</p>`', { value: 1 })).toBe('<p></p>');
+    expect(render('`<p>${missing.value}</p>`', {})).toBe('<p></p>');
+  });
+
+  it('should not call methods outside the whitelist', () => {
+    expect(render('`${items.constructor.constructor("return 1")()}`', { items: [] })).toBe('');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TokenValueParser } from '../../src/parsers/token-value-parser.js';
+
+describe('TokenValueParser', () => {
+  let parser: TokenValueParser;
+
+  beforeEach(() => {
+    parser = new TokenValueParser();
+  });
+
+  describe('colors', () => {
+    it('should normalize hex colors', () => {
+      expect(parser.parse('#FF5F00')).toEqual({
+        kind: 'color',
+        hex: '#ff5f00',
+        rgb: { r: 255, g: 95, b: 0 },
+        alpha: 1,
+        oklch: { l: 0.6872, c: 0.2097, h: 41.42 }
+      });
+      expect(parser.parseColor('#fff')?.hex).toBe('#ffffff');
+      expect(parser.parseColor('#00000080')?.alpha).toBe(0.502);
+    });
+
+    it('should parse rgb(), hsl() and named colors with alpha', () => {
+      expect(parser.parseColor('rgba(26, 115, 232, 0.5)')).toMatchObject({ hex: '#1a73e880', rgb: { r: 26, g: 115, b: 232 }, alpha: 0.5 });
+      expect(parser.parseColor('rgb(26 115 232 / 50%)')?.hex).toBe('#1a73e880');
+      expect(parser.parseColor('hsl(0, 100%, 50%)')?.hex).toBe('#ff0000');
+      expect(parser.parseColor('white')?.oklch).toEqual({ l: 1, c: 0, h: 0 });
+      expect(parser.parseColor('transparent')?.alpha).toBe(0);
+    });
+
+    it('should round-trip OKLCH colors', () => {
+      const orange = parser.parseColor('#ff5f00')!;
+      const { l, c, h } = orange.oklch;
+
+      expect(parser.parseColor(`oklch(${l} ${c} ${h})`)?.hex).toBe('#ff5f00');
+      expect(parser.parseColor(`oklch(${l * 100}% ${c} ${h}deg / 0.5)`)?.alpha).toBe(0.5);
+    });
+  });
+
+  describe('dimensions and durations', () => {
+    it('should split dimensions with px and rem equivalents', () => {
+      expect(parser.parse('1.5rem')).toEqual({ kind: 'dimension', value: 1.5, unit: 'rem', px: 24, rem: 1.5 });
+      expect(parser.parse('14px')).toEqual({ kind: 'dimension', value: 14, unit: 'px', px: 14, rem: 0.875 });
+      expect(parser.parse('50%')).toEqual({ kind: 'dimension', value: 50, unit: '%' });
+      expect(parser.parse('0', { category: 'spacing' })).toMatchObject({ kind: 'dimension', px: 0 });
+    });
+
+    it('should convert durations to milliseconds', () => {
+      expect(parser.parse('0.2s')).toEqual({ kind: 'duration', value: 0.2, unit: 's', ms: 200 });
+      expect(parser.parse('150ms')).toMatchObject({ ms: 150 });
+    });
+  });
+
+  describe('font stacks and numbers', () => {
+    it('should split font stacks into families', () => {
+      expect(parser.parse('"Mark Offc For MC", Arial, sans-serif', { category: 'typography' })).toEqual({
+        kind: 'fontFamily',
+        families: ['Mark Offc For MC', 'Arial', 'sans-serif']
+      });
+      expect(parser.parse('Inter', { name: '--made-font-family-base', category: 'typography' })).toEqual({ kind: 'fontFamily', families: ['Inter'] });
+    });
+
+    it('should parse numbers and skip unresolved values', () => {
+      expect(parser.parse('400', { category: 'typography' })).toEqual({ kind: 'number', value: 400 });
+      expect(parser.parse('var(--made-color-brand)')).toBeUndefined();
+      expect(parser.parse('calc(1rem + 2px)')).toBeUndefined();
+      expect(parser.parse('0 1px 2px rgba(0,0,0,0.2)')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { NearestTokenFinder } from '../../src/search/nearest-token-finder.js';
+import { MADEToken } from '../../src/types.js';
+
+describe('NearestTokenFinder', () => {
+  let finder: NearestTokenFinder;
+
+  const tokens: MADEToken[] = [
+    { name: '--made-color-blue-500', value: '#1A73E8', category: 'color' },
+    { name: '--made-color-action', value: 'var(--made-color-blue-500)', resolvedValue: '#1A73E8', aliasChain: ['--made-color-blue-500'], category: 'color' },
+    { name: '--made-color-blue-600', value: '#1557B0', category: 'color' },
+    { name: '--made-color-orange-500', value: '#FF5F00', category: 'color' },
+    { name: '--made-color-overlay', value: 'rgba(0, 0, 0, 0.5)', category: 'color' },
+    { name: '--made-spacing-sm', value: '0.75rem', category: 'spacing' },
+    { name: '--made-spacing-md', value: '1rem', category: 'spacing' },
+    { name: '--made-radius-md', value: '12px', category: 'radius' },
+    { name: '--made-duration-fast', value: '150ms', category: 'time' },
+    { name: '--made-duration-base', value: '0.3s', category: 'time' }
+  ];
+
+  beforeEach(async () => {
+    finder = new NearestTokenFinder();
+    await finder.initialize(tokens);
+  });
+
+  it('should rank colors by ΔE and prefer semantic tokens on ties', () => {
+    const result = finder.find('#1a73e8');
+
+    expect(result.parsed.kind).toBe('color');
+    expect(result.matches.map(match => match.name).slice(0, 3)).toEqual([
+      '--made-color-action',
+      '--made-color-blue-500',
+      '--made-color-blue-600'
+    ]);
+    expect(result.matches[0]).toMatchObject({ distance: 0, metric: 'deltaE2000', explanation: 'Exact match for #1a73e8' });
+    expect(result.matches[2].explanation).toMatch(/^ΔE [\d.]+ from #1a73e8/);
+  });
+
+  it('should count opacity differences', () => {
+    const [match] = finder.find('rgba(0, 0, 0, 0.4)', 'color', 1).matches;
+
+    expect(match.name).toBe('--made-color-overlay');
+    expect(match.explanation).toContain('opacity 0.5 vs 0.4');
+  });
+
+  it('should compare dimensions by px within a category', () => {
+    const result = finder.find('13px', 'spacing');
+
+    expect(result.matches.map(match => match.name)).toEqual(['--made-spacing-sm', '--made-spacing-md']);
+    expect(result.matches[0]).toMatchObject({ distance: 1, metric: 'px', explanation: '0.75rem (12px) is 1px smaller than 13px' });
+    expect(finder.find('11px').matches[0].name).toBe('--made-radius-md');
+  });
+
+  it('should compare durations in milliseconds', () => {
+    const [match] = finder.find('200ms').matches;
+
+    expect(match).toMatchObject({ name: '--made-duration-fast', distance: 50, metric: 'ms', explanation: '150ms is 50ms shorter than 200ms' });
+  });
+
+  it('should reject values it cannot parse', () => {
+    expect(() => finder.find('solid')).toThrow("Cannot parse 'solid'");
+  });
+});
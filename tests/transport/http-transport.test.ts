@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportServer } from '../../src/transport/http-transport.js';
+import { HealthCheckResponse } from '../../src/types.js';
+
+describe('HttpTransportServer', () => {
+  let transport: HttpTransportServer;
+  let baseUrl: string;
+  let health: HealthCheckResponse;
+
+  const createServer = () => {
+    const server = new Server(
+      { name: 'made-mcp-server', version: '1.0.0' },
+      { capabilities: { tools: {} } }
+    );
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'health_check', inputSchema: { type: 'object', properties: {} } }]
+    }));
+    return server;
+  };
+
+  const initializeRequest = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' }
+    }
+  };
+
+  const mcpHeaders = {
+    'Content-Type': 'application/json',
+    Accept: 'application/json, text/event-stream'
+  };
+
+  const readSSEMessage = async (response: Response) => {
+    const text = await response.text();
+    const dataLine = text.split('\n').find(line => line.startsWith('data: '));
+    return JSON.parse(dataLine!.substring('data: '.length));
+  };
+
+  beforeEach(async () => {
+    health = {
+      status: 'healthy',
+      version: '1.0.0',
+      checks: [{ name: 'initialization', status: 'pass' }]
+    };
+
+    transport = new HttpTransportServer({
+      port: 0,
+      host: '127.0.0.1',
+      createServer,
+      healthCheck: async () => health
+    });
+    await transport.start();
+    baseUrl = `http://127.0.0.1:${transport.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await transport.stop();
+  });
+
+  describe('/health', () => {
+    it('should report health check results', async () => {
+      const response = await fetch(`${baseUrl}/health`);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.status).toBe('healthy');
+      expect(body.sessions).toBe(0);
+    });
+
+    it('should return 503 when unhealthy', async () => {
+      health = { ...health, status: 'unhealthy' };
+
+      const response = await fetch(`${baseUrl}/health`);
+      expect(response.status).toBe(503);
+    });
+  });
+
+  describe('/mcp', () => {
+    it('should open a session on initialize and serve tools', async () => {
+      const initResponse = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: mcpHeaders,
+        body: JSON.stringify(initializeRequest)
+      });
+
+      expect(initResponse.status).toBe(200);
+      const sessionId = initResponse.headers.get('mcp-session-id');
+      expect(sessionId).toBeTruthy();
+
+      const initResult = await readSSEMessage(initResponse);
+      expect(initResult.result.serverInfo.name).toBe('made-mcp-server');
+
+      const toolsResponse = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { ...mcpHeaders, 'mcp-session-id': sessionId!, 'mcp-protocol-version': '2025-03-26' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} })
+      });
+
+      const toolsResult = await readSSEMessage(toolsResponse);
+      expect(toolsResult.result.tools[0].name).toBe('health_check');
+      expect(transport.getSessionCount()).toBe(1);
+    });
+
+    it('should reject requests without a session', async () => {
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: mcpHeaders,
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} })
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject unknown sessions', async () => {
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { ...mcpHeaders, 'mcp-session-id': 'missing' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} })
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject invalid JSON', async () => {
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: mcpHeaders,
+        body: '{not json'
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('/messages', () => {
+    it('should reject posts for unknown SSE sessions', async () => {
+      const response = await fetch(`${baseUrl}/messages?sessionId=missing`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  it('should return 404 for unknown routes', async () => {
+    const response = await fetch(`${baseUrl}/unknown`);
+    expect(response.status).toBe(404);
+  });
+});